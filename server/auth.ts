@@ -1,11 +1,15 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { Express } from "express";
+import { fromZodError } from "zod-validation-error";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { scrypt, randomBytes, timingSafeEqual, createHash, createHmac } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { User as SelectUser, PublicUser, registerUserSchema, passwordSchema, userRoles } from "@shared/schema";
+import { requirePermission, isTwoFactorRequired, getTwoFactorRequiredRoles, setTwoFactorRequiredRoles } from "./permissions";
+import { generateTotpSecret, verifyTotp, buildOtpauthUri, generateRecoveryCodes, normalizeRecoveryCode } from "./services/totp";
+import QRCode from "qrcode";
 
 declare global {
   namespace Express {
@@ -13,8 +17,22 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Senha já conferida, aguardando o código TOTP
+    pendingTwoFactor?: { userId: number; expiresAt: number };
+  }
+}
+
 const scryptAsync = promisify(scrypt);
 
+// Falhas toleradas antes do bloqueio progressivo, por usuário e por IP
+const USER_FREE_ATTEMPTS = 5;
+const IP_FREE_ATTEMPTS = 20;
+const MAX_LOCKOUT_MINUTES = 60;
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+
 async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
@@ -42,6 +60,90 @@ async function comparePasswords(supplied: string, stored: string) {
   }
 }
 
+// Hash da senha e segredos de 2FA nunca saem do servidor
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password, totpSecret, totpLastStep, recoveryCodes, ...publicUser } = user;
+  return publicUser;
+}
+
+export function generateToken(): string {
+  return randomBytes(32).toString("hex");
+}
+
+// Tokens são guardados apenas como hash, como as senhas
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Retorna a mensagem de erro da política de senha, ou null se a senha for aceita
+function checkPasswordPolicy(password: string, username: string): string | null {
+  const parsed = passwordSchema.safeParse(password);
+  if (!parsed.success) {
+    return fromZodError(parsed.error, { prefix: null }).message;
+  }
+  if (password.toLowerCase().includes(username.toLowerCase())) {
+    return "Password must not contain the username";
+  }
+  return null;
+}
+
+function loginThrottleKeys(username: string, ip: string | undefined): string[] {
+  return [`user:${username.toLowerCase()}`, `ip:${ip}`];
+}
+
+async function registerLoginFailure(keys: string[]) {
+  for (const key of keys) {
+    const failures = await storage.recordLoginFailure(key);
+    const freeAttempts = key.startsWith("ip:") ? IP_FREE_ATTEMPTS : USER_FREE_ATTEMPTS;
+    if (failures >= freeAttempts) {
+      // Bloqueio progressivo: 1, 2, 4, 8... minutos, até o máximo
+      const minutes = Math.min(MAX_LOCKOUT_MINUTES, 2 ** (failures - freeAttempts));
+      await storage.lockLogin(key, minutes);
+    }
+  }
+}
+
+function signResetPayload(payload: string): string {
+  return createHmac("sha256", process.env.SESSION_SECRET!).update(payload).digest("base64url");
+}
+
+// Muda quando a senha muda, invalidando tokens de redefinição já usados
+function passwordFingerprint(user: SelectUser): string {
+  return createHash("sha256").update(user.password).digest("hex").substring(0, 16);
+}
+
+export function createPasswordResetToken(user: SelectUser): { token: string; expiresAt: string } {
+  const exp = Date.now() + PASSWORD_RESET_TTL_MS;
+  const payload = Buffer.from(JSON.stringify({ sub: user.id, exp, fp: passwordFingerprint(user) })).toString("base64url");
+  return { token: `${payload}.${signResetPayload(payload)}`, expiresAt: new Date(exp).toISOString() };
+}
+
+async function verifyPasswordResetToken(token: string): Promise<SelectUser | undefined> {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return undefined;
+  
+  const expected = Buffer.from(signResetPayload(payload));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) {
+    return undefined;
+  }
+  
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    if (typeof claims.sub !== "number" || typeof claims.exp !== "number" || claims.exp < Date.now()) {
+      return undefined;
+    }
+    
+    const user = await storage.getUser(claims.sub);
+    if (!user || !user.active || claims.fp !== passwordFingerprint(user)) {
+      return undefined;
+    }
+    return user;
+  } catch {
+    return undefined;
+  }
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!,
@@ -56,12 +158,28 @@ export function setupAuth(app: Express) {
   app.use(passport.session());
 
   passport.use(
-    new LocalStrategy(async (username, password, done) => {
-      const user = await storage.getUserByUsername(username);
-      if (!user || !(await comparePasswords(password, user.password))) {
-        return done(null, false);
-      } else {
+    new LocalStrategy({ passReqToCallback: true }, async (req, username, password, done) => {
+      try {
+        const keys = loginThrottleKeys(username, req.ip);
+        const lockout = await storage.getLoginLockout(keys);
+        if (lockout) {
+          const info = {
+            message: `Too many failed attempts. Try again in ${Math.ceil(lockout.retryAfterSeconds / 60)} minute(s)`,
+            retryAfter: lockout.retryAfterSeconds,
+          };
+          return done(null, false, info);
+        }
+        
+        const user = await storage.getUserByUsername(username);
+        if (!user || !user.active || !(await comparePasswords(password, user.password))) {
+          await registerLoginFailure(keys);
+          return done(null, false);
+        }
+        
+        await storage.clearLoginFailures(keys[0]);
         return done(null, user);
+      } catch (error) {
+        return done(error);
       }
     }),
   );
@@ -69,28 +187,125 @@ export function setupAuth(app: Express) {
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     const user = await storage.getUser(id);
-    done(null, user);
+    // Contas desativadas perdem a sessão imediatamente
+    done(null, user?.active ? user : false);
   });
 
+  // Cadastro fechado: apenas por convite, exceto o primeiro usuário (admin inicial)
   app.post("/api/register", async (req, res, next) => {
-    const existingUser = await storage.getUserByUsername(req.body.username);
-    if (existingUser) {
-      return res.status(400).send("Username already exists");
-    }
+    try {
+      const isBootstrap = (await storage.getUserCount()) === 0;
+      const parsed = (isBootstrap ? registerUserSchema.partial({ token: true }) : registerUserSchema).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+      }
+      
+      const { token, ...data } = parsed.data;
+      const policyError = checkPasswordPolicy(data.password, data.username);
+      if (policyError) {
+        return res.status(400).json({ message: policyError });
+      }
+      const existingUser = await storage.getUserByUsername(data.username);
+      if (existingUser) {
+        return res.status(400).send("Username already exists");
+      }
 
-    const user = await storage.createUser({
-      ...req.body,
-      password: await hashPassword(req.body.password),
-    });
+      // A contagem acima é só uma prévia: o admin inicial é confirmado sob trava no storage
+      const userData = { ...data, password: await hashPassword(data.password) };
+      if (isBootstrap) {
+        const admin = await storage.createBootstrapAdmin(userData);
+        if (!admin) {
+          return res.status(403).json({ message: "Registration requires an invitation" });
+        }
+        return req.login(admin, (err) => {
+          if (err) return next(err);
+          res.status(201).json(toPublicUser(admin));
+        });
+      }
+      
+      const user = await storage.createUserFromInvitation(hashToken(token!), userData);
+      if (!user) {
+        return res.status(403).json({ message: "Invitation is invalid, expired or already used" });
+      }
 
-    req.login(user, (err) => {
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error("Registration error:", error);
+      res.status(500).json({ message: "Failed to register user" });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: Error | null, user: SelectUser | false, info?: { message: string; retryAfter?: number }) => {
       if (err) return next(err);
-      res.status(201).json(user);
-    });
+      if (!user) {
+        if (info?.retryAfter) {
+          res.set("Retry-After", String(info.retryAfter));
+          return res.status(429).json({ message: info.message });
+        }
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      
+      // Com 2FA ativo, a sessão só é criada após o código TOTP
+      if (user.totpEnabled) {
+        req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS };
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  app.post("/api/login/2fa", async (req, res, next) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ message: "Two-factor login expired, sign in again" });
+      }
+      
+      const user = await storage.getUser(pending.userId);
+      if (!user || !user.active || !user.totpEnabled || !user.totpSecret) {
+        delete req.session.pendingTwoFactor;
+        return res.sendStatus(401);
+      }
+      
+      const keys = loginThrottleKeys(user.username, req.ip);
+      const lockout = await storage.getLoginLockout(keys);
+      if (lockout) {
+        res.set("Retry-After", String(lockout.retryAfterSeconds));
+        return res.status(429).json({ message: "Too many failed attempts" });
+      }
+      
+      const { code, recoveryCode } = req.body;
+      let verified = false;
+      if (typeof code === "string") {
+        const step = verifyTotp(user.totpSecret, code);
+        verified = step !== null && await storage.useTotpStep(user.id, step);
+      } else if (typeof recoveryCode === "string") {
+        verified = await storage.useRecoveryCode(user.id, hashToken(normalizeRecoveryCode(recoveryCode)));
+      }
+      
+      if (!verified) {
+        await registerLoginFailure(keys);
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
+      
+      await storage.clearLoginFailures(keys[0]);
+      delete req.session.pendingTwoFactor;
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(200).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -102,6 +317,204 @@ export function setupAuth(app: Express) {
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
+  });
+
+  app.post("/api/user/password", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { currentPassword, newPassword } = req.body;
+      if (typeof currentPassword !== "string" || typeof newPassword !== "string") {
+        return res.status(400).json({ message: "currentPassword and newPassword are required" });
+      }
+      if (!(await comparePasswords(currentPassword, req.user.password))) {
+        return res.status(403).json({ message: "Current password is incorrect" });
+      }
+      
+      const policyError = checkPasswordPolicy(newPassword, req.user.username);
+      if (policyError) {
+        return res.status(400).json({ message: policyError });
+      }
+      
+      await storage.updateUser(req.user.id, { password: await hashPassword(newPassword) }, req.user.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Password change error:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // Redefinição iniciada pelo admin: o token assinado é entregue ao usuário fora do sistema
+  app.post("/api/admin/users/:id/password-reset", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await storage.getUser(parseInt(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.status(201).json(createPasswordResetToken(user));
+    } catch (error) {
+      console.error("Password reset token error:", error);
+      res.status(500).json({ message: "Failed to create password reset token" });
+    }
+  });
+
+  app.post("/api/password-reset", async (req, res) => {
+    try {
+      const { token, newPassword } = req.body;
+      if (typeof token !== "string" || typeof newPassword !== "string") {
+        return res.status(400).json({ message: "token and newPassword are required" });
+      }
+      
+      const user = await verifyPasswordResetToken(token);
+      if (!user) {
+        return res.status(403).json({ message: "Reset token is invalid or expired" });
+      }
+      
+      const policyError = checkPasswordPolicy(newPassword, user.username);
+      if (policyError) {
+        return res.status(400).json({ message: policyError });
+      }
+      
+      await storage.updateUser(user.id, { password: await hashPassword(newPassword) }, user.id);
+      await storage.clearLoginFailures(`user:${user.username.toLowerCase()}`);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Password reset error:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Cadastro do autenticador: o segredo só passa a valer após a confirmação de um código
+  app.post("/api/user/2fa/setup", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      if (req.user.totpEnabled) {
+        return res.status(409).json({ message: "Two-factor authentication is already enabled" });
+      }
+      
+      const secret = generateTotpSecret();
+      await storage.updateUser(req.user.id, { totpSecret: secret }, req.user.id);
+      
+      const otpauthUri = buildOtpauthUri(secret, req.user.username);
+      const qrCode = await QRCode.toDataURL(otpauthUri, { margin: 1, width: 256 });
+      res.json({ secret, otpauthUri, qrCode });
+    } catch (error) {
+      console.error("Two-factor setup error:", error);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/user/2fa/enable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { code } = req.body;
+      const user = await storage.getUser(req.user.id);
+      if (!user?.totpSecret || user.totpEnabled) {
+        return res.status(409).json({ message: "Start two-factor setup first" });
+      }
+      
+      const step = typeof code === "string" ? verifyTotp(user.totpSecret, code) : null;
+      if (step === null || !(await storage.useTotpStep(user.id, step))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUser(user.id, {
+        totpEnabled: true,
+        recoveryCodes: recoveryCodes.map(code => hashToken(normalizeRecoveryCode(code))),
+      }, user.id);
+      
+      // Códigos de recuperação são exibidos uma única vez
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Two-factor enable error:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  app.post("/api/user/2fa/recovery-codes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { code } = req.body;
+      const user = await storage.getUser(req.user.id);
+      if (!user?.totpEnabled || !user.totpSecret) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+      
+      const step = typeof code === "string" ? verifyTotp(user.totpSecret, code) : null;
+      if (step === null || !(await storage.useTotpStep(user.id, step))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUser(user.id, {
+        recoveryCodes: recoveryCodes.map(code => hashToken(normalizeRecoveryCode(code))),
+      }, user.id);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      console.error("Recovery codes error:", error);
+      res.status(500).json({ message: "Failed to generate recovery codes" });
+    }
+  });
+
+  app.post("/api/user/2fa/disable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { password, code } = req.body;
+      const user = await storage.getUser(req.user.id);
+      if (!user?.totpEnabled || !user.totpSecret) {
+        return res.status(409).json({ message: "Two-factor authentication is not enabled" });
+      }
+      if (await isTwoFactorRequired(user.role)) {
+        return res.status(403).json({ message: "Two-factor authentication is required for your role" });
+      }
+      
+      // O passo é consumido como no login, então o mesmo código não serve duas vezes
+      const step = typeof code === "string" ? verifyTotp(user.totpSecret, code) : null;
+      if (
+        typeof password !== "string" ||
+        !(await comparePasswords(password, user.password)) ||
+        step === null ||
+        !(await storage.useTotpStep(user.id, step))
+      ) {
+        return res.status(403).json({ message: "Invalid password or authentication code" });
+      }
+      
+      await storage.updateUser(user.id, { totpEnabled: false, totpSecret: null, recoveryCodes: [] }, user.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Two-factor disable error:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  app.get("/api/admin/settings/two-factor", requirePermission("users:manage"), async (req, res) => {
+    try {
+      res.json({ requiredRoles: await getTwoFactorRequiredRoles() });
+    } catch (error) {
+      console.error("Two-factor settings error:", error);
+      res.status(500).json({ message: "Failed to fetch two-factor settings" });
+    }
+  });
+
+  app.put("/api/admin/settings/two-factor", requirePermission("users:manage"), async (req, res) => {
+    const { requiredRoles } = req.body;
+    if (!Array.isArray(requiredRoles) || requiredRoles.some(role => !(userRoles as readonly string[]).includes(role))) {
+      return res.status(400).json({ message: "requiredRoles must be a list of valid roles" });
+    }
+    
+    try {
+      await setTwoFactorRequiredRoles(requiredRoles, req.user!.id);
+      res.json({ requiredRoles });
+    } catch (error) {
+      console.error("Two-factor settings error:", error);
+      res.status(500).json({ message: "Failed to update two-factor settings" });
+    }
   });
 }
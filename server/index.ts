@@ -1,9 +1,21 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startOverdueScheduler } from "./services/overdue-scheduler";
+
+declare module "http" {
+  interface IncomingMessage {
+    rawBody?: Buffer;
+  }
+}
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Corpo bruto preservado para validar assinaturas HMAC de webhooks
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  },
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -66,5 +78,6 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startOverdueScheduler();
   });
 })();
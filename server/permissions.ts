@@ -0,0 +1,157 @@
+import type { RequestHandler } from "express";
+import { userRoles, type UserRole, type AttachmentOwnerType } from "@shared/schema";
+import { storage } from "./storage";
+
+const TWO_FACTOR_SETTING = "twoFactorRequiredRoles";
+
+export type Permission =
+  | "clients:read"
+  | "clients:write"
+  | "clients:delete"
+  | "products:read"
+  | "products:write"
+  | "quotes:read"
+  | "quotes:write"
+  | "production:read"
+  | "production:write"
+  | "invoices:read"
+  | "invoices:draft"
+  | "invoices:write"
+  | "invoices:delete"
+  | "invoices:import"
+  | "payments:read"
+  | "payments:write"
+  | "pix:charge"
+  | "pix:confirm"
+  | "pix:decode"
+  | "analytics:read"
+  | "analytics:goals"
+  | "attachments:read"
+  | "attachments:write"
+  | "audit:read"
+  | "records:restore"
+  | "users:manage";
+
+const readPermissions: Permission[] = [
+  "clients:read",
+  "products:read",
+  "quotes:read",
+  "production:read",
+  "invoices:read",
+  "payments:read",
+  "pix:decode",
+  "analytics:read",
+  "attachments:read",
+];
+
+// Matriz de permissões por papel; admin tem acesso total
+const rolePermissions: Record<UserRole, readonly Permission[]> = {
+  admin: [
+    ...readPermissions,
+    "clients:write",
+    "clients:delete",
+    "products:write",
+    "quotes:write",
+    "production:write",
+    "attachments:write",
+    "invoices:draft",
+    "invoices:write",
+    "invoices:delete",
+    "invoices:import",
+    "payments:write",
+    "pix:charge",
+    "pix:confirm",
+    "analytics:goals",
+    "audit:read",
+    "records:restore",
+    "users:manage",
+  ],
+  finance: [
+    ...readPermissions,
+    "clients:write",
+    "clients:delete",
+    "products:write",
+    "quotes:write",
+    "production:write",
+    "attachments:write",
+    "invoices:draft",
+    "invoices:write",
+    "invoices:delete",
+    "invoices:import",
+    "payments:write",
+    "pix:charge",
+    "pix:confirm",
+    "analytics:goals",
+    "audit:read",
+  ],
+  sales: [
+    ...readPermissions,
+    "clients:write",
+    "quotes:write",
+    "production:write",
+    "attachments:write",
+    "invoices:draft",
+    "invoices:import",
+    "pix:charge",
+  ],
+  readonly: readPermissions,
+};
+
+// Anexos herdam as permissões do registro ao qual pertencem
+export const attachmentOwnerPermissions: Record<AttachmentOwnerType, { read: Permission; write: Permission }> = {
+  client: { read: "clients:read", write: "clients:write" },
+  invoice: { read: "invoices:read", write: "invoices:draft" },
+  quote: { read: "quotes:read", write: "quotes:write" },
+  production_order: { read: "production:read", write: "production:write" },
+  import: { read: "invoices:import", write: "invoices:import" },
+};
+
+export function isUserRole(role: unknown): role is UserRole {
+  return typeof role === "string" && (userRoles as readonly string[]).includes(role);
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isUserRole(role) && rolePermissions[role].includes(permission);
+}
+
+// Configuração lida uma vez e mantida em memória; atualizada por setTwoFactorRequiredRoles
+let twoFactorRequiredRoles: UserRole[] | undefined;
+
+export async function getTwoFactorRequiredRoles(): Promise<UserRole[]> {
+  if (!twoFactorRequiredRoles) {
+    const stored = await storage.getSetting<string[]>(TWO_FACTOR_SETTING);
+    twoFactorRequiredRoles = (stored ?? []).filter(isUserRole);
+  }
+  return twoFactorRequiredRoles;
+}
+
+export async function setTwoFactorRequiredRoles(roles: UserRole[], updatedBy: number): Promise<void> {
+  await storage.setSetting(TWO_FACTOR_SETTING, roles, updatedBy);
+  twoFactorRequiredRoles = roles;
+}
+
+export async function isTwoFactorRequired(role: string | null | undefined): Promise<boolean> {
+  return isUserRole(role) && (await getTwoFactorRequiredRoles()).includes(role);
+}
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (!hasPermission(req.user.role, permission)) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    
+    try {
+      // Papéis que exigem 2FA ficam bloqueados até o cadastro do autenticador
+      if (!req.user.totpEnabled && await isTwoFactorRequired(req.user.role)) {
+        return res.status(403).json({
+          message: "Two-factor authentication is required for your role",
+          twoFactorEnrollmentRequired: true,
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
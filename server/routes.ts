@@ -1,14 +1,82 @@
-import type { Express } from "express";
+import type { Express, Request, Response, RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth } from "./auth";
-import { insertClientSchema, insertInvoiceSchema } from "@shared/schema";
-import { analyzeInvoicePDF } from "./services/gemini";
-import { generatePixCode, generatePixQRCode } from "./services/pix";
+import { storage, auditEntities, ConflictError, InvalidCursorError } from "./storage";
+import { setupAuth, toPublicUser, generateToken, hashToken } from "./auth";
+import { requirePermission, hasPermission, isUserRole, attachmentOwnerPermissions } from "./permissions";
+import { insertClientSchema, mergeClientsSchema, clientListQuerySchema, invoiceListQuerySchema, paymentListQuerySchema, exportFormatSchema, type ExportFormat, insertProductSchema, insertQuoteSchema, convertQuoteSchema, quoteStatuses, insertProductionOrderSchema, productionStages, attachmentOwnerTypes, attachmentKinds, type AttachmentOwnerType, reviewImportJobSchema, commitImportJobSchema, insertInvoiceSchema, insertPaymentSchema, userRoles } from "@shared/schema";
+import { runImportExtraction, reviewImportJob, buildInvoiceFromImport, getClientCandidates, ImportCommitError } from "./services/invoice-import";
+import { parseFiscalXml, FiscalXmlError } from "./services/fiscal-xml";
+import { readSpreadsheet, isXlsx, SpreadsheetError, MAX_SPREADSHEET_BYTES, type SpreadsheetValue } from "./services/spreadsheet";
+import { parseImportMapping, parseClientImport, parseInvoiceImport, BulkImportError } from "./services/bulk-import";
+import { createExportWriter, exportContentTypes, getAccountingAccounts, invoiceExportColumns, invoiceJournal, paymentExportColumns, paymentJournal, type ExportWriter } from "./services/exports";
+import { findDuplicateClients, DUPLICATE_THRESHOLD } from "./services/client-matching";
+import { generatePixCode, generatePixQRCode, generateTxid, decodePixCode, PixDecodeError, pixQrCodeSchema } from "./services/pix";
+import { InvoiceTotalsError } from "./services/invoice-totals";
+import { resolveTierPrice } from "./services/product-pricing";
+import { AttachmentValidationError, MAX_ATTACHMENT_BYTES, detectMimeType, validateAttachment } from "./services/attachments";
+import { AttachmentNotFoundError } from "./services/attachment-storage";
+import { renderInvoicePdf, type InvoicePdfImage } from "./services/invoice-pdf";
+import { pixWebhookSchema, verifyPixWebhook, verifyPixSharedSecret, getPixSharedSecretAllowedIps, getPixWebhookSecret, signPixWebhook, buildSimulatedPixEvent, PIX_SIGNATURE_HEADER } from "./services/pix-webhook";
 import multer from "multer";
+import { z } from "zod";
 import path from "path";
+import { format } from "date-fns";
 
-const upload = multer({ dest: 'uploads/' });
+// Arquivos ficam em memória só até serem gravados como anexo
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_ATTACHMENT_BYTES, files: 1 } });
+
+function uploadSingle(field: string): RequestHandler {
+  return (req, res, next) => {
+    upload.single(field)(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(error.code === "LIMIT_FILE_SIZE" ? 413 : 400).json({ message: error.message });
+      }
+      next(error);
+    });
+  };
+}
+
+// Planilha enviada para importação em lote: XLSX ou CSV (texto)
+function readUploadedSpreadsheet(file: Express.Multer.File): SpreadsheetValue[][] {
+  if (file.size > MAX_SPREADSHEET_BYTES) {
+    throw new AttachmentValidationError(`Spreadsheet exceeds the ${MAX_SPREADSHEET_BYTES / (1024 * 1024)} MB limit`, 413);
+  }
+  if (!isXlsx(file.buffer) && detectMimeType(file.buffer) !== "text/plain") {
+    throw new AttachmentValidationError("Upload a CSV or XLSX spreadsheet", 415);
+  }
+  return readSpreadsheet(file.buffer);
+}
+
+// Escreve os lotes na resposta à medida que saem do banco. Depois que o download começou,
+// um erro só pode interromper a conexão
+async function sendExport<T>(res: Response, fileName: string, exportFormat: ExportFormat, writer: ExportWriter<T>, batches: AsyncGenerator<T[]>): Promise<void> {
+  const { contentType, extension } = exportContentTypes[exportFormat];
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${fileName}-${format(new Date(), "yyyy-MM-dd")}.${extension}"`);
+  
+  await writer.start();
+  for await (const rows of batches) {
+    if (res.destroyed) break;
+    await writer.write(rows);
+  }
+  if (!res.destroyed) {
+    await writer.finish();
+    res.end();
+  }
+}
+
+function canAccessAttachments(req: Request, ownerType: AttachmentOwnerType, mode: "read" | "write"): boolean {
+  return hasPermission(req.user!.role, attachmentOwnerPermissions[ownerType][mode]);
+}
+
+// ?includeDeleted=true é exclusivo de quem pode restaurar registros (admin)
+function wantsDeleted(req: Request): boolean {
+  return req.query.includeDeleted === "true";
+}
+
+function canSeeDeleted(req: Request): boolean {
+  return !wantsDeleted(req) || hasPermission(req.user!.role, "records:restore");
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   setupAuth(app);
@@ -23,23 +91,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Client routes
-  app.get("/api/clients", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/clients", requirePermission("clients:read"), async (req, res) => {
+    if (!canSeeDeleted(req)) {
+      return res.status(403).json({ message: "Only admins can list deleted records" });
+    }
     
     try {
-      const clients = await storage.getClients();
-      res.json(clients);
+      const query = clientListQuerySchema.parse(req.query);
+      res.json(await storage.listClients(query, wantsDeleted(req)));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list parameters", errors: error.errors });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to fetch clients" });
     }
   });
   
-  app.get("/api/clients/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // Precisa vir antes de /api/clients/:id
+  app.get("/api/clients/duplicates", requirePermission("clients:read"), async (req, res) => {
+    const minScore = req.query.minScore !== undefined ? Number(req.query.minScore) : DUPLICATE_THRESHOLD;
+    if (!Number.isFinite(minScore) || minScore < 0 || minScore > 1) {
+      return res.status(400).json({ message: "minScore must be a number between 0 and 1" });
+    }
     
+    try {
+      const clients = await storage.getClients();
+      res.json(findDuplicateClients(clients, minScore));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to find duplicate clients" });
+    }
+  });
+  
+  app.get("/api/clients/:id", requirePermission("clients:read"), async (req, res) => {
     try {
       const client = await storage.getClientWithInvoices(parseInt(req.params.id));
-      if (!client) {
+      if (!client || (client.deletedAt && !(wantsDeleted(req) && canSeeDeleted(req)))) {
         return res.status(404).json({ message: "Client not found" });
       }
       res.json(client);
@@ -48,200 +137,1409 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/clients", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.post("/api/clients", requirePermission("clients:write"), async (req, res) => {
     try {
       const validatedData = insertClientSchema.parse(req.body);
-      const client = await storage.createClient(validatedData);
+      const client = await storage.createClient(validatedData, req.user!.id);
       res.status(201).json(client);
     } catch (error) {
-      res.status(400).json({ message: "Invalid client data" });
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid client data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create client" });
     }
   });
   
-  app.put("/api/clients/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.put("/api/clients/:id", requirePermission("clients:write"), async (req, res) => {
     try {
       const validatedData = insertClientSchema.partial().parse(req.body);
-      const client = await storage.updateClient(parseInt(req.params.id), validatedData);
+      const client = await storage.updateClient(parseInt(req.params.id), validatedData, req.user!.id);
       if (!client) {
         return res.status(404).json({ message: "Client not found" });
       }
       res.json(client);
     } catch (error) {
-      res.status(400).json({ message: "Invalid client data" });
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid client data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update client" });
     }
   });
   
-  app.delete("/api/clients/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.delete("/api/clients/:id", requirePermission("clients:delete"), async (req, res) => {
     try {
-      const success = await storage.deleteClient(parseInt(req.params.id));
+      const success = await storage.deleteClient(parseInt(req.params.id), req.user!.id);
       if (!success) {
         return res.status(404).json({ message: "Client not found" });
       }
       res.sendStatus(204);
     } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to delete client" });
     }
   });
   
-  // Invoice routes
-  app.get("/api/invoices", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.post("/api/clients/:id/restore", requirePermission("records:restore"), async (req, res) => {
+    try {
+      const client = await storage.restoreClient(parseInt(req.params.id), req.user!.id);
+      if (!client) {
+        return res.status(404).json({ message: "Deleted client not found" });
+      }
+      res.json(client);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to restore client" });
+    }
+  });
+  
+  app.post("/api/clients/:id/merge", requirePermission("clients:delete"), async (req, res) => {
+    try {
+      const { sourceId } = mergeClientsSchema.parse(req.body);
+      const summary = await storage.mergeClients(parseInt(req.params.id), sourceId, req.user!.id);
+      if (!summary) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid merge request", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to merge clients" });
+    }
+  });
+  
+  app.post("/api/clients/:id/logo", requirePermission("clients:write"), uploadSingle("logo"), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No logo uploaded" });
+    }
     
     try {
-      const { status, clientId } = req.query;
-      let invoices;
+      const clientId = parseInt(req.params.id);
+      if (!await storage.attachmentOwnerExists("client", clientId)) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      const { attachment } = await storage.createAttachment({
+        ownerType: "client",
+        ownerId: clientId,
+        kind: "logo",
+        fileName: req.file.originalname,
+        data: req.file.buffer,
+      }, req.user!.id);
+      const client = await storage.setClientLogo(clientId, attachment.id, req.user!.id);
+      res.json(client);
+    } catch (error) {
+      if (error instanceof AttachmentValidationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update client logo" });
+    }
+  });
+  
+  // Attachment routes
+  app.get("/api/attachments", requirePermission("attachments:read"), async (req, res) => {
+    const parsed = z.object({
+      ownerType: z.enum(attachmentOwnerTypes),
+      ownerId: z.coerce.number().int().positive(),
+    }).safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "ownerType and ownerId are required" });
+    }
+    if (!canAccessAttachments(req, parsed.data.ownerType, "read")) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    
+    try {
+      const attachments = await storage.getAttachments(parsed.data.ownerType, parsed.data.ownerId);
+      res.json(attachments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+  
+  app.post("/api/attachments", requirePermission("attachments:write"), uploadSingle("file"), async (req, res) => {
+    // PDFs e XMLs importados entram pelas rotas de importação
+    const parsed = z.object({
+      ownerType: z.enum(attachmentOwnerTypes).exclude(["import"]),
+      ownerId: z.coerce.number().int().positive(),
+      kind: z.enum(attachmentKinds).exclude(["import"]).default("document"),
+    }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid attachment data" });
+    }
+    if (!req.file) {
+      return res.status(400).json({ message: "No file uploaded" });
+    }
+    
+    const { ownerType, ownerId, kind } = parsed.data;
+    if (!canAccessAttachments(req, ownerType, "write")) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+    
+    try {
+      if (!await storage.attachmentOwnerExists(ownerType, ownerId)) {
+        return res.status(404).json({ message: "Attachment owner not found" });
+      }
       
-      if (status) {
-        invoices = await storage.getInvoicesByStatus(status as string);
-      } else if (clientId) {
-        invoices = await storage.getInvoicesByClient(parseInt(clientId as string));
-      } else {
-        invoices = await storage.getInvoices();
+      const { attachment, duplicate } = await storage.createAttachment({
+        ownerType,
+        ownerId,
+        kind,
+        fileName: req.file.originalname,
+        data: req.file.buffer,
+      }, req.user!.id);
+      res.status(duplicate ? 200 : 201).json(attachment);
+    } catch (error) {
+      if (error instanceof AttachmentValidationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Attachment upload error:", error);
+      res.status(500).json({ message: "Failed to store attachment" });
+    }
+  });
+  
+  app.get("/api/attachments/:id", requirePermission("attachments:read"), async (req, res) => {
+    try {
+      const attachment = await storage.getAttachment(parseInt(req.params.id));
+      if (!attachment || !canAccessAttachments(req, attachment.ownerType as AttachmentOwnerType, "read")) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      res.json(attachment);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachment" });
+    }
+  });
+  
+  app.get("/api/attachments/:id/download", requirePermission("attachments:read"), async (req, res) => {
+    try {
+      const attachment = await storage.getAttachment(parseInt(req.params.id));
+      if (!attachment || !canAccessAttachments(req, attachment.ownerType as AttachmentOwnerType, "read")) {
+        return res.status(404).json({ message: "Attachment not found" });
       }
       
-
+      const etag = `"${attachment.sha256}"`;
+      if (req.headers["if-none-match"] === etag) {
+        return res.sendStatus(304);
+      }
       
-      res.json(invoices);
+      const content = await storage.getAttachmentContent(attachment);
+      // Só imagens raster e PDF abrem no navegador; o resto (inclusive SVG) é sempre baixado
+      const inline = req.query.inline === "true" && ["image/png", "image/jpeg", "image/webp", "application/pdf"].includes(attachment.mimeType);
+      res.set({
+        "Content-Type": attachment.mimeType,
+        "Content-Length": String(content.length),
+        "Content-Disposition": `${inline ? "inline" : "attachment"}; filename="${attachment.fileName.replace(/[^\x20-\x7e]/g, "_")}"; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+        "Content-Security-Policy": "sandbox",
+        "X-Content-Type-Options": "nosniff",
+        "Cache-Control": "private, max-age=3600",
+        ETag: etag,
+      });
+      res.send(content);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch invoices" });
+      if (error instanceof AttachmentNotFoundError) {
+        return res.status(410).json({ message: "Attachment content is no longer available" });
+      }
+      console.error("Attachment download error:", error);
+      res.status(500).json({ message: "Failed to download attachment" });
     }
   });
   
-  app.get("/api/invoices/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.delete("/api/attachments/:id", requirePermission("attachments:write"), async (req, res) => {
     try {
-      const invoice = await storage.getInvoice(parseInt(req.params.id));
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const id = parseInt(req.params.id);
+      const attachment = await storage.getAttachment(id);
+      if (!attachment || !canAccessAttachments(req, attachment.ownerType as AttachmentOwnerType, "read")) {
+        return res.status(404).json({ message: "Attachment not found" });
       }
-      res.json(invoice);
+      if (!canAccessAttachments(req, attachment.ownerType as AttachmentOwnerType, "write")) {
+        return res.status(403).json({ message: "Insufficient permissions" });
+      }
+      
+      await storage.deleteAttachment(id, req.user!.id);
+      res.sendStatus(204);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch invoice" });
+      res.status(500).json({ message: "Failed to delete attachment" });
     }
   });
   
-  app.post("/api/invoices", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  // Product catalog routes
+  app.get("/api/products", requirePermission("products:read"), async (req, res) => {
     try {
-      const validatedData = insertInvoiceSchema.parse(req.body);
-      const invoice = await storage.createInvoice(validatedData);
-      res.status(201).json(invoice);
+      const products = await storage.getProducts(req.query.includeInactive === "true");
+      res.json(products);
     } catch (error) {
-      console.error("Invoice creation error:", error);
-      res.status(400).json({ message: "Invalid invoice data" });
+      res.status(500).json({ message: "Failed to fetch products" });
     }
   });
   
-  app.put("/api/invoices/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.get("/api/products/:id", requirePermission("products:read"), async (req, res) => {
     try {
-      const validatedData = insertInvoiceSchema.partial().parse(req.body);
-      const invoice = await storage.updateInvoice(parseInt(req.params.id), validatedData);
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
       }
-      res.json(invoice);
+      res.json(product);
     } catch (error) {
-      console.error("Invoice update error:", error);
-      res.status(400).json({ message: "Invalid invoice data" });
+      res.status(500).json({ message: "Failed to fetch product" });
     }
   });
   
-  app.delete("/api/invoices/:id", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // Preço unitário para uma quantidade, conforme as faixas do catálogo
+  app.get("/api/products/:id/price", requirePermission("products:read"), async (req, res) => {
+    const quantity = parseFloat(req.query.quantity as string);
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      return res.status(400).json({ message: "quantity must be a positive number" });
+    }
     
     try {
-      const success = await storage.deleteInvoice(parseInt(req.params.id));
+      const product = await storage.getProduct(parseInt(req.params.id));
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const unitPrice = resolveTierPrice(product, quantity);
+      res.json({ productId: product.id, quantity, unitPrice, total: parseFloat((unitPrice * quantity).toFixed(2)) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resolve product price" });
+    }
+  });
+  
+  app.post("/api/products", requirePermission("products:write"), async (req, res) => {
+    try {
+      const validatedData = insertProductSchema.parse(req.body);
+      const product = await storage.createProduct(validatedData, req.user!.id);
+      res.status(201).json(product);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid product data" });
+    }
+  });
+  
+  app.put("/api/products/:id", requirePermission("products:write"), async (req, res) => {
+    try {
+      const validatedData = insertProductSchema.partial().parse(req.body);
+      const product = await storage.updateProduct(parseInt(req.params.id), validatedData, req.user!.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(product);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid product data" });
+    }
+  });
+  
+  app.delete("/api/products/:id", requirePermission("products:write"), async (req, res) => {
+    try {
+      const success = await storage.deactivateProduct(parseInt(req.params.id), req.user!.id);
       if (!success) {
-        return res.status(404).json({ message: "Invoice not found" });
+        return res.status(404).json({ message: "Product not found" });
       }
       res.sendStatus(204);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete invoice" });
+      res.status(500).json({ message: "Failed to delete product" });
     }
   });
   
-  // PDF Processing route
-  app.post("/api/invoices/import-pdf", upload.single('pdf'), async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
-    if (!req.file) {
-      return res.status(400).json({ message: "No PDF file uploaded" });
+  // Quote routes
+  app.get("/api/quotes", requirePermission("quotes:read"), async (req, res) => {
+    try {
+      const { status, clientId } = req.query;
+      const quotes = await storage.getQuotes({
+        status: status as string | undefined,
+        clientId: clientId ? parseInt(clientId as string) : undefined,
+      });
+      res.json(quotes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch quotes" });
+    }
+  });
+  
+  app.get("/api/quotes/:id", requirePermission("quotes:read"), async (req, res) => {
+    try {
+      const quote = await storage.getQuote(parseInt(req.params.id));
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.json(quote);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch quote" });
+    }
+  });
+  
+  app.get("/api/quotes/:id/revisions", requirePermission("quotes:read"), async (req, res) => {
+    try {
+      const revisions = await storage.getQuoteRevisions(parseInt(req.params.id));
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch quote revisions" });
+    }
+  });
+  
+  app.post("/api/quotes", requirePermission("quotes:write"), async (req, res) => {
+    try {
+      const validatedData = insertQuoteSchema.parse(req.body);
+      const quote = await storage.createQuote(validatedData, req.user!.id);
+      res.status(201).json(quote);
+    } catch (error) {
+      if (error instanceof InvoiceTotalsError) {
+        return res.status(422).json({
+          message: error.message,
+          computedAmount: error.computedAmount,
+          submittedAmount: error.submittedAmount,
+        });
+      }
+      res.status(400).json({ message: "Invalid quote data" });
+    }
+  });
+  
+  app.put("/api/quotes/:id", requirePermission("quotes:write"), async (req, res) => {
+    try {
+      const validatedData = insertQuoteSchema.partial().parse(req.body);
+      const quote = await storage.updateQuote(parseInt(req.params.id), validatedData, req.user!.id);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.json(quote);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof InvoiceTotalsError) {
+        return res.status(422).json({
+          message: error.message,
+          computedAmount: error.computedAmount,
+          submittedAmount: error.submittedAmount,
+        });
+      }
+      res.status(400).json({ message: "Invalid quote data" });
+    }
+  });
+  
+  app.post("/api/quotes/:id/status", requirePermission("quotes:write"), async (req, res) => {
+    const parsed = z.object({ status: z.enum(quoteStatuses) }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: `status must be one of: ${quoteStatuses.join(", ")}` });
     }
     
     try {
-      const extractedData = await analyzeInvoicePDF(req.file.path);
-      
-      res.json({
-        extractedData,
-        fileName: req.file.originalname
-      });
+      const quote = await storage.updateQuoteStatus(parseInt(req.params.id), parsed.data.status, req.user!.id);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.json(quote);
     } catch (error) {
-      console.error("PDF processing error:", error);
-      res.status(500).json({ message: "Failed to process PDF" });
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update quote status" });
     }
   });
   
-
+  app.post("/api/quotes/:id/convert", requirePermission("invoices:draft"), async (req, res) => {
+    const parsed = convertQuoteSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invoice number is required" });
+    }
+    
+    try {
+      // Mesma regra da criação de notas: vendas só gera rascunhos
+      const status = hasPermission(req.user!.role, "invoices:write") ? "pending" : "draft";
+      const invoice = await storage.convertQuote(parseInt(req.params.id), { ...parsed.data, status }, req.user!.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+      res.status(201).json(invoice);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Quote conversion error:", error);
+      res.status(500).json({ message: "Failed to convert quote" });
+    }
+  });
   
-  // PIX routes
-  app.post("/api/pix/qrcode", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  // Invoice routes
+  app.get("/api/invoices", requirePermission("invoices:read"), async (req, res) => {
+    if (!canSeeDeleted(req)) {
+      return res.status(403).json({ message: "Only admins can list deleted records" });
+    }
     
     try {
-      const { amount, description } = req.body;
-      
-      if (!amount) {
-        return res.status(400).json({ message: "Amount is required" });
+      const query = invoiceListQuerySchema.parse(req.query);
+      res.json(await storage.listInvoices(query, wantsDeleted(req)));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list parameters", errors: error.errors });
+      }
+      if (error instanceof InvalidCursorError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+  
+  app.get("/api/invoices/:id", requirePermission("invoices:read"), async (req, res) => {
+    try {
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice || (invoice.deletedAt && !(wantsDeleted(req) && canSeeDeleted(req)))) {
+        return res.status(404).json({ message: "Invoice not found" });
       }
+      res.json(invoice);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invoice" });
+    }
+  });
+  
+  app.post("/api/invoices", requirePermission("invoices:draft"), async (req, res) => {
+    try {
+      const validatedData = insertInvoiceSchema.parse(req.body);
       
-      const pixCode = generatePixCode(amount, description || '');
-      const qrCode = await generatePixQRCode(pixCode);
+      // Quem não pode emitir notas (vendas) só cria rascunhos
+      if (!hasPermission(req.user!.role, "invoices:write")) {
+        validatedData.status = "draft";
+      }
       
-      res.json({ qrCode, pixCode });
+      const invoice = await storage.createInvoice(validatedData, req.user!.id);
+      res.status(201).json(invoice);
     } catch (error) {
-      console.error("PIX QR Code generation error:", error);
-      res.status(500).json({ message: "Failed to generate PIX QR code" });
+      if (error instanceof InvoiceTotalsError) {
+        return res.status(422).json({
+          message: error.message,
+          computedAmount: error.computedAmount,
+          submittedAmount: error.submittedAmount,
+        });
+      }
+      console.error("Invoice creation error:", error);
+      res.status(400).json({ message: "Invalid invoice data" });
     }
   });
-
-  // Analytics routes
-  app.get("/api/analytics/dashboard", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  
+  app.put("/api/invoices/:id", requirePermission("invoices:write"), async (req, res) => {
     try {
-      const monthFilter = req.query.month as string;
-      const yearFilter = req.query.year ? parseInt(req.query.year as string) : undefined;
-      
-      const stats = await storage.getDashboardStats(monthFilter, yearFilter);
-      res.json(stats);
+      const validatedData = insertInvoiceSchema.partial().parse(req.body);
+      const invoice = await storage.updateInvoice(parseInt(req.params.id), validatedData, req.user!.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.json(invoice);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch dashboard stats" });
+      if (error instanceof InvoiceTotalsError) {
+        return res.status(422).json({
+          message: error.message,
+          computedAmount: error.computedAmount,
+          submittedAmount: error.submittedAmount,
+        });
+      }
+      console.error("Invoice update error:", error);
+      res.status(400).json({ message: "Invalid invoice data" });
     }
   });
   
-  app.get("/api/analytics/overdue", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.get("/api/invoices/:id/pdf", requirePermission("invoices:read"), async (req, res) => {
     try {
-      const overdueInvoices = await storage.getOverdueInvoices();
-
-      res.json(overdueInvoices);
+      const invoice = await storage.getInvoice(parseInt(req.params.id));
+      if (!invoice || invoice.deletedAt) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      let logo: InvoicePdfImage | null = null;
+      if (invoice.client?.logoAttachmentId) {
+        const attachment = await storage.getAttachment(invoice.client.logoAttachmentId);
+        if (attachment) {
+          logo = await storage.getAttachmentContent(attachment)
+            .then(data => ({ data, mimeType: attachment.mimeType }))
+            .catch(error => {
+              console.error("Invoice PDF logo error:", error);
+              return null;
+            });
+        }
+      }
+      
+      // Saldo em aberto vira uma cobrança PIX rastreável (reaproveitada enquanto o valor não muda).
+      // Só quem pode cobrar cria a cobrança; os demais recebem a existente ou o PDF sem PIX
+      let pix = null;
+      if (parseFloat(invoice.balanceDue) > 0 && !["draft", "cancelled"].includes(invoice.status ?? "")) {
+        let charge = await storage.getActivePixCharge(invoice.id, invoice.balanceDue);
+        if (!charge && hasPermission(req.user!.role, "pix:charge")) {
+          const txid = generateTxid();
+          charge = await storage.createPixCharge({
+            txid,
+            invoiceId: invoice.id,
+            amount: parseFloat(invoice.balanceDue).toFixed(2),
+            pixCode: generatePixCode(invoice.balanceDue, `Nota ${invoice.number}`, txid),
+          });
+        }
+        if (charge) {
+          pix = { pixCode: charge.pixCode, qrCode: await generatePixQRCode(charge.pixCode) };
+        }
+      }
+      
+      const pdf = renderInvoicePdf({ invoice, logo, pix });
+      const fileName = `nota-${invoice.number.replace(/[^\w.-]/g, "_")}.pdf`;
+      res.set({
+        "Content-Type": "application/pdf",
+        "Content-Length": String(pdf.length),
+        "Content-Disposition": `${req.query.download === "true" ? "attachment" : "inline"}; filename="${fileName}"`,
+      });
+      res.send(pdf);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch overdue invoices" });
+      console.error("Invoice PDF error:", error);
+      res.status(500).json({ message: "Failed to render invoice PDF" });
     }
   });
   
+  app.get("/api/invoices/:id/history", requirePermission("audit:read"), async (req, res) => {
+    try {
+      const history = await storage.getInvoiceHistory(parseInt(req.params.id));
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invoice history" });
+    }
+  });
+  
+  app.delete("/api/invoices/:id", requirePermission("invoices:delete"), async (req, res) => {
+    try {
+      const success = await storage.deleteInvoice(parseInt(req.params.id), req.user!.id);
+      if (!success) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete invoice" });
+    }
+  });
+  
+  app.post("/api/invoices/:id/restore", requirePermission("records:restore"), async (req, res) => {
+    try {
+      const invoice = await storage.restoreInvoice(parseInt(req.params.id), req.user!.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Deleted invoice not found" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to restore invoice" });
+    }
+  });
+  
+  // Production routes
+  app.get("/api/production/board", requirePermission("production:read"), async (req, res) => {
+    try {
+      const board = await storage.getProductionBoard();
+      res.json(board);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch production board" });
+    }
+  });
+  
+  app.get("/api/production/orders", requirePermission("production:read"), async (req, res) => {
+    try {
+      const { stage, assignedTo } = req.query;
+      const orders = await storage.getProductionOrders({
+        stage: stage as string | undefined,
+        assignedTo: assignedTo ? parseInt(assignedTo as string) : undefined,
+      });
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch production orders" });
+    }
+  });
+  
+  app.get("/api/production/orders/:id", requirePermission("production:read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getProductionOrder(id);
+      if (!order) {
+        return res.status(404).json({ message: "Production order not found" });
+      }
+      const stageHistory = await storage.getProductionStageEvents(id);
+      res.json({ ...order, stageHistory });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch production order" });
+    }
+  });
+  
+  app.post("/api/production/orders", requirePermission("production:write"), async (req, res) => {
+    const schema = insertProductionOrderSchema.refine(
+      (order) => Boolean(order.invoiceId) !== Boolean(order.quoteId),
+      { message: "Provide either invoiceId or quoteId" },
+    );
+    
+    try {
+      const validatedData = schema.parse(req.body);
+      const order = await storage.createProductionOrder(validatedData, req.user!.id);
+      if (!order) {
+        return res.status(404).json({ message: validatedData.invoiceId ? "Invoice not found" : "Quote not found" });
+      }
+      res.status(201).json(order);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid production order data" });
+    }
+  });
+  
+  app.put("/api/production/orders/:id", requirePermission("production:write"), async (req, res) => {
+    try {
+      // Origem (nota/orçamento) não muda depois de criada a ordem
+      const validatedData = insertProductionOrderSchema.omit({ invoiceId: true, quoteId: true }).partial().parse(req.body);
+      const order = await storage.updateProductionOrder(parseInt(req.params.id), validatedData, req.user!.id);
+      if (!order) {
+        return res.status(404).json({ message: "Production order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(400).json({ message: "Invalid production order data" });
+    }
+  });
+  
+  app.post("/api/production/orders/:id/stage", requirePermission("production:write"), async (req, res) => {
+    const parsed = z.object({
+      stage: z.enum(productionStages),
+      note: z.string().max(500).optional(),
+    }).safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: `stage must be one of: ${productionStages.join(", ")}` });
+    }
+    
+    try {
+      const order = await storage.moveProductionOrder(parseInt(req.params.id), parsed.data.stage, parsed.data.note, req.user!.id);
+      if (!order) {
+        return res.status(404).json({ message: "Production order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to move production order" });
+    }
+  });
+  
+  // Payment routes
+  app.get("/api/invoices/:id/payments", requirePermission("payments:read"), async (req, res) => {
+    try {
+      const payments = await storage.getPaymentsByInvoice(parseInt(req.params.id));
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+  
+  app.post("/api/invoices/:id/payments", requirePermission("payments:write"), async (req, res) => {
+    try {
+      const validatedData = insertPaymentSchema.parse({
+        ...req.body,
+        invoiceId: parseInt(req.params.id),
+        recordedBy: req.user!.id,
+      });
+      const payment = await storage.createPayment(validatedData);
+      if (!payment) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Payment creation error:", error);
+      res.status(400).json({ message: "Invalid payment data" });
+    }
+  });
+  
+  app.delete("/api/invoices/:id/payments/:paymentId", requirePermission("payments:write"), async (req, res) => {
+    try {
+      const success = await storage.deletePayment(parseInt(req.params.id), parseInt(req.params.paymentId), req.user!.id);
+      if (!success) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete payment" });
+    }
+  });
+  
+  // PDF Processing route
+  app.post("/api/invoices/import-pdf", requirePermission("invoices:import"), uploadSingle('pdf'), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No PDF file uploaded" });
+    }
+    if (detectMimeType(req.file.buffer) !== "application/pdf") {
+      return res.status(415).json({ message: "Uploaded file is not a PDF" });
+    }
+    
+    try {
+      validateAttachment("import", req.file.buffer);
+      
+      // Cada importação vira um import_job; o PDF fica registrado como anexo do job
+      const job = await storage.createImportJob({
+        source: "pdf",
+        fileName: req.file.originalname,
+        createdBy: req.user!.id,
+      });
+      const { attachment } = await storage.createAttachment({
+        ownerType: "import",
+        ownerId: job.id,
+        kind: "import",
+        fileName: req.file.originalname,
+        data: req.file.buffer,
+      }, req.user!.id);
+      await storage.updateImportJob(job.id, { attachmentId: attachment.id });
+      
+      const extracted = await runImportExtraction(job, req.file.buffer);
+      res.status(201).json(extracted);
+    } catch (error) {
+      if (error instanceof AttachmentValidationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("PDF processing error:", error);
+      res.status(500).json({ message: "Failed to process PDF" });
+    }
+  });
+  
+  // XML fiscal (NF-e/NFS-e) é autoritativo: a nota é criada direto, sem job de revisão
+  app.post("/api/invoices/import-xml", requirePermission("invoices:import"), uploadSingle('xml'), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No XML file uploaded" });
+    }
+    if (detectMimeType(req.file.buffer) !== "application/xml") {
+      return res.status(415).json({ message: "Uploaded file is not an XML document" });
+    }
+    
+    try {
+      validateAttachment("import", req.file.buffer);
+      const fiscal = parseFiscalXml(req.file.buffer);
+      
+      const status = hasPermission(req.user!.role, "invoices:write") ? "pending" : "draft";
+      const { invoice, client, clientCreated } = await storage.importFiscalDocument(fiscal, status, req.user!.id, {
+        fileName: req.file.originalname,
+        data: req.file.buffer,
+      });
+      
+      res.status(201).json({ invoice, client, clientCreated });
+    } catch (error) {
+      if (error instanceof FiscalXmlError) {
+        return res.status(422).json({ message: error.message });
+      }
+      if (error instanceof InvoiceTotalsError) {
+        return res.status(422).json({
+          message: error.message,
+          computedAmount: error.computedAmount,
+          submittedAmount: error.submittedAmount,
+        });
+      }
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof AttachmentValidationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("XML import error:", error);
+      res.status(500).json({ message: "Failed to import XML" });
+    }
+  });
+  
+  // Importação em lote de planilhas: ?dryRun=true (ou o campo dryRun) só valida e devolve os erros por linha
+  app.post("/api/import/clients", requirePermission("clients:write"), uploadSingle("file"), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No spreadsheet uploaded" });
+    }
+    
+    try {
+      const dryRun = req.query.dryRun === "true" || req.body.dryRun === "true";
+      const table = readUploadedSpreadsheet(req.file);
+      const { rows, errors } = parseClientImport(table, parseImportMapping(req.body.mapping), await storage.getClients(true));
+      
+      if (dryRun) {
+        return res.json({ dryRun, valid: errors.length === 0, rows, errors });
+      }
+      if (errors.length > 0) {
+        return res.status(422).json({ message: "Spreadsheet has invalid rows; nothing was imported", errors });
+      }
+      
+      const clients = await storage.importClients(rows.map(row => row.data), req.user!.id);
+      res.status(201).json({ imported: clients.length, clients });
+    } catch (error) {
+      if (error instanceof BulkImportError || error instanceof SpreadsheetError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof AttachmentValidationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Client import error:", error);
+      res.status(500).json({ message: "Failed to import clients" });
+    }
+  });
+  
+  app.post("/api/import/invoices", requirePermission("invoices:write"), uploadSingle("file"), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ message: "No spreadsheet uploaded" });
+    }
+    
+    try {
+      const dryRun = req.query.dryRun === "true" || req.body.dryRun === "true";
+      const table = readUploadedSpreadsheet(req.file);
+      const { rows, errors } = parseInvoiceImport(table, parseImportMapping(req.body.mapping), {
+        clients: await storage.getClients(),
+        invoiceNumbers: await storage.getInvoiceNumbers(),
+      });
+      
+      if (dryRun) {
+        return res.json({ dryRun, valid: errors.length === 0, rows, errors });
+      }
+      if (errors.length > 0) {
+        return res.status(422).json({ message: "Spreadsheet has invalid rows; nothing was imported", errors });
+      }
+      
+      const invoices = await storage.importInvoices(rows.map(row => row.data), req.user!.id);
+      res.status(201).json({ imported: invoices.length, invoices });
+    } catch (error) {
+      if (error instanceof BulkImportError || error instanceof SpreadsheetError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof AttachmentValidationError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof InvoiceTotalsError) {
+        return res.status(422).json({
+          message: error.message,
+          computedAmount: error.computedAmount,
+          submittedAmount: error.submittedAmount,
+        });
+      }
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Invoice import error:", error);
+      res.status(500).json({ message: "Failed to import invoices" });
+    }
+  });
+  
+  // Export routes: mesmos filtros das listagens, sem paginação
+  app.get("/api/export/invoices", requirePermission("invoices:read"), async (req, res) => {
+    if (!canSeeDeleted(req)) {
+      return res.status(403).json({ message: "Only admins can list deleted records" });
+    }
+    
+    try {
+      const query = invoiceListQuerySchema.parse(req.query);
+      const { format: exportFormat } = exportFormatSchema.parse(req.query);
+      const accounts = getAccountingAccounts();
+      const writer = createExportWriter(exportFormat, res, {
+        columns: invoiceExportColumns,
+        journal: invoice => invoiceJournal(invoice, accounts),
+        sheetName: "Notas",
+      });
+      await sendExport(res, "notas", exportFormat, writer, storage.streamInvoices(query, wantsDeleted(req)));
+    } catch (error) {
+      if (res.headersSent) {
+        console.error("Invoice export error:", error);
+        return res.destroy();
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export parameters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export invoices" });
+    }
+  });
+  
+  app.get("/api/export/payments", requirePermission("payments:read"), async (req, res) => {
+    try {
+      const query = paymentListQuerySchema.parse(req.query);
+      const { format: exportFormat } = exportFormatSchema.parse(req.query);
+      const accounts = getAccountingAccounts();
+      const writer = createExportWriter(exportFormat, res, {
+        columns: paymentExportColumns,
+        journal: payment => paymentJournal(payment, accounts),
+        sheetName: "Recebimentos",
+      });
+      await sendExport(res, "recebimentos", exportFormat, writer, storage.streamPayments(query));
+    } catch (error) {
+      if (res.headersSent) {
+        console.error("Payment export error:", error);
+        return res.destroy();
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export parameters", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to export payments" });
+    }
+  });
+  
+  // Import job routes: revisão e efetivação das importações
+  app.get("/api/import-jobs", requirePermission("invoices:import"), async (req, res) => {
+    try {
+      const jobs = await storage.getImportJobs(req.query.status as string | undefined);
+      res.json(jobs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch import jobs" });
+    }
+  });
+  
+  app.get("/api/import-jobs/:id", requirePermission("invoices:import"), async (req, res) => {
+    try {
+      const job = await storage.getImportJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      
+      const candidates = getClientCandidates(job.fields, await storage.getClients())
+        .map(({ client, score }) => ({ clientId: client.id, name: client.name, score }));
+      res.json({ ...job, clientCandidates: candidates });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch import job" });
+    }
+  });
+  
+  app.put("/api/import-jobs/:id", requirePermission("invoices:import"), async (req, res) => {
+    const parsed = reviewImportJobSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid review data" });
+    }
+    
+    try {
+      const job = await storage.getImportJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      if (!["extracted", "reviewed", "failed"].includes(job.status)) {
+        return res.status(409).json({ message: `Import job is ${job.status} and cannot be reviewed` });
+      }
+      
+      const { fields, clientId } = parsed.data;
+      if (clientId && !await storage.getClient(clientId)) {
+        return res.status(404).json({ message: "Client not found" });
+      }
+      
+      res.json(await reviewImportJob(job, { fields, clientId }, req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to review import job" });
+    }
+  });
+  
+  app.post("/api/import-jobs/:id/retry", requirePermission("invoices:import"), async (req, res) => {
+    try {
+      const job = await storage.getImportJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      if (job.status !== "failed" && job.status !== "extracted") {
+        return res.status(409).json({ message: `Import job is ${job.status} and cannot be retried` });
+      }
+      
+      const attachment = job.attachmentId ? await storage.getAttachment(job.attachmentId) : undefined;
+      if (!attachment) {
+        return res.status(410).json({ message: "Imported file is no longer available" });
+      }
+      
+      const extracted = await runImportExtraction(job, await storage.getAttachmentContent(attachment));
+      res.json(extracted);
+    } catch (error) {
+      console.error("Import retry error:", error);
+      res.status(500).json({ message: "Failed to retry import job" });
+    }
+  });
+  
+  app.post("/api/import-jobs/:id/commit", requirePermission("invoices:import"), async (req, res) => {
+    const parsed = commitImportJobSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid commit data" });
+    }
+    
+    try {
+      const job = await storage.getImportJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Import job not found" });
+      }
+      
+      // Mesma regra da criação de notas: sem invoices:write a nota nasce como rascunho
+      const status = hasPermission(req.user!.role, "invoices:write") ? "pending" : "draft";
+      const invoiceData = insertInvoiceSchema.parse(buildInvoiceFromImport(job, { ...parsed.data, status }));
+      const invoice = await storage.commitImportJob(job.id, invoiceData, req.user!.id);
+      res.status(201).json(invoice);
+    } catch (error) {
+      if (error instanceof ImportCommitError) {
+        return res.status(422).json({ message: error.message, missingFields: error.missingFields });
+      }
+      if (error instanceof InvoiceTotalsError) {
+        return res.status(422).json({
+          message: error.message,
+          computedAmount: error.computedAmount,
+          submittedAmount: error.submittedAmount,
+        });
+      }
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(422).json({ message: "Imported data is not a valid invoice", errors: error.errors });
+      }
+      console.error("Import commit error:", error);
+      res.status(500).json({ message: "Failed to commit import job" });
+    }
+  });
+  
+
+  
+  // PIX routes
+  app.post("/api/pix/qrcode", requirePermission("pix:charge"), async (req, res) => {
+    const parsed = pixQrCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid PIX charge data", errors: parsed.error.issues });
+    }
+    
+    try {
+      const { amount, description, invoiceId } = parsed.data;
+      
+      // Cobrança vinculada a uma nota: txid único persistido para conciliação
+      if (invoiceId) {
+        const invoice = await storage.getInvoice(invoiceId);
+        if (!invoice || invoice.deletedAt) {
+          return res.status(404).json({ message: "Invoice not found" });
+        }
+        if (invoice.status === "cancelled" || parseFloat(invoice.balanceDue) <= 0) {
+          return res.status(409).json({ message: "Invoice has no balance due" });
+        }
+        
+        // Cobrança parcial é permitida, mas nunca acima do saldo em aberto
+        if (amount !== undefined && Math.round(amount * 100) > Math.round(parseFloat(invoice.balanceDue) * 100)) {
+          return res.status(400).json({ message: `Amount exceeds balance due of ${invoice.balanceDue}` });
+        }
+        const chargeAmount = (amount ?? parseFloat(invoice.balanceDue)).toFixed(2);
+        const txid = generateTxid();
+        const pixCode = generatePixCode(chargeAmount, description || `Nota ${invoice.number}`, txid);
+        const charge = await storage.createPixCharge({
+          txid,
+          invoiceId: invoice.id,
+          amount: chargeAmount,
+          pixCode,
+        });
+        const qrCode = await generatePixQRCode(pixCode);
+        
+        return res.status(201).json({ qrCode, pixCode, txid: charge.txid, amount: charge.amount });
+      }
+      
+      if (amount === undefined) {
+        return res.status(400).json({ message: "Amount is required" });
+      }
+      
+      const pixCode = generatePixCode(amount, description || '');
+      const qrCode = await generatePixQRCode(pixCode);
+      
+      res.json({ qrCode, pixCode });
+    } catch (error) {
+      console.error("PIX QR Code generation error:", error);
+      res.status(500).json({ message: "Failed to generate PIX QR code" });
+    }
+  });
+  
+  app.post("/api/pix/decode", requirePermission("pix:decode"), async (req, res) => {
+    const { pixCode } = req.body;
+    if (!pixCode || typeof pixCode !== "string") {
+      return res.status(400).json({ message: "pixCode is required" });
+    }
+    
+    try {
+      res.json(decodePixCode(pixCode));
+    } catch (error) {
+      if (error instanceof PixDecodeError) {
+        return res.status(422).json({ message: error.message, tag: error.tag, offset: error.offset });
+      }
+      console.error("PIX decode error:", error);
+      res.status(500).json({ message: "Failed to decode PIX code" });
+    }
+  });
+  
+  app.post("/api/pix/charges/:txid/confirm", requirePermission("pix:confirm"), async (req, res) => {
+    try {
+      const { amount, paidAt, reference } = req.body;
+      const payment = await storage.confirmPixCharge(req.params.txid, {
+        amount: amount ? parseFloat(amount).toFixed(2) : undefined,
+        paidAt: paidAt || new Date().toISOString(),
+        reference,
+        recordedBy: req.user!.id,
+      });
+      if (!payment) {
+        return res.status(404).json({ message: "PIX charge not found" });
+      }
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("PIX confirmation error:", error);
+      res.status(500).json({ message: "Failed to confirm PIX payment" });
+    }
+  });
 
+  // Webhook do PSP (sem sessão: autenticado por assinatura)
+  app.post(["/api/pix/webhook", "/api/pix/webhook/pix"], async (req, res) => {
+    const secret = getPixWebhookSecret();
+    if (!secret) {
+      return res.status(503).json({ message: "PIX webhook is not configured" });
+    }
+    
+    const signature = req.get(PIX_SIGNATURE_HEADER);
+    const allowedIps = getPixSharedSecretAllowedIps();
+    const authorized = signature || !allowedIps
+      ? verifyPixWebhook(req.rawBody, signature, secret)
+      : verifyPixSharedSecret(typeof req.query.hmac === "string" ? req.query.hmac : undefined, req.ip, secret, allowedIps);
+    if (!authorized) {
+      return res.status(401).json({ message: "Invalid webhook signature" });
+    }
+    
+    const parsed = pixWebhookSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid webhook payload", errors: parsed.error.issues });
+    }
+    
+    try {
+      const results = [];
+      for (const event of parsed.data.pix) {
+        const { event: stored, duplicate } = await storage.processPixEvent(event);
+        results.push({ endToEndId: stored.endToEndId, status: stored.status, duplicate });
+      }
+      res.json({ received: results });
+    } catch (error) {
+      console.error("PIX webhook error:", error);
+      res.status(500).json({ message: "Failed to process PIX webhook" });
+    }
+  });
+  
+  // Simulador de PSP para testar o fluxo completo offline
+  if (app.get("env") === "development") {
+    app.post("/api/pix/simulate/:txid", requirePermission("pix:confirm"), async (req, res) => {
+      const secret = getPixWebhookSecret();
+      if (!secret) {
+        return res.status(503).json({ message: "PIX_WEBHOOK_SECRET is not set" });
+      }
+      
+      try {
+        const charge = await storage.getPixChargeByTxid(req.params.txid);
+        if (!charge) {
+          return res.status(404).json({ message: "PIX charge not found" });
+        }
+        
+        const event = buildSimulatedPixEvent(charge.txid, req.body.amount || charge.amount);
+        const body = JSON.stringify({ pix: [event] });
+        const headers = { "Content-Type": "application/json", [PIX_SIGNATURE_HEADER]: signPixWebhook(body, secret) };
+        const url = `${req.protocol}://${req.get("host")}/api/pix/webhook`;
+        
+        // Reenvia o mesmo evento quando solicitado, para exercitar a idempotência
+        const deliveries = req.body.redeliver ? 2 : 1;
+        const responses = [];
+        for (let i = 0; i < deliveries; i++) {
+          const response = await fetch(url, { method: "POST", headers, body });
+          responses.push({ status: response.status, body: await response.json() });
+        }
+        
+        res.json({ event, responses });
+      } catch (error) {
+        console.error("PIX simulation error:", error);
+        res.status(500).json({ message: "Failed to simulate PIX payment" });
+      }
+    });
+  }
+
+  // Analytics routes
+  app.get("/api/analytics/dashboard", requirePermission("analytics:read"), async (req, res) => {
+    try {
+      const monthFilter = req.query.month as string;
+      const yearFilter = req.query.year ? parseInt(req.query.year as string) : undefined;
+      
+      const { goalProgress1, goalProgress2, ...stats } = await storage.getDashboardStats(monthFilter, yearFilter);
+      
+      if (!hasPermission(req.user!.role, "analytics:goals")) {
+        return res.json(stats);
+      }
+      res.json({ ...stats, goalProgress1, goalProgress2 });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch dashboard stats" });
+    }
+  });
+  
+  app.get("/api/analytics/overdue", requirePermission("analytics:read"), async (req, res) => {
+    try {
+      const aging = await storage.getOverdueAging();
+      res.json(aging);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch overdue invoices" });
+    }
+  });
+  
+  app.get("/api/analytics/quote-conversion", requirePermission("analytics:read"), async (req, res) => {
+    try {
+      const conversion = await storage.getQuoteConversionStats();
+      res.json(conversion);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch quote conversion" });
+    }
+  });
+  
+
+  
+  // Audit routes
+  app.get("/api/audit", requirePermission("audit:read"), async (req, res) => {
+    const schema = z.object({
+      entity: z.enum(auditEntities).optional(),
+      entityId: z.coerce.number().int().optional(),
+      userId: z.coerce.number().int().optional(),
+      from: z.string().date().optional(),
+      to: z.string().date().optional(),
+      limit: z.coerce.number().int().min(1).max(1000).optional(),
+    });
+    
+    const parsed = schema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ message: "Invalid audit filters" });
+    }
+    
+    try {
+      const { userId, to, ...filters } = parsed.data;
+      const entries = await storage.getAuditLog({
+        ...filters,
+        actorId: userId,
+        // Data final inclusiva: até o fim do dia informado
+        to: to ? `${to} 23:59:59.999` : undefined,
+      });
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+  
+  // Admin routes
+  app.get("/api/admin/users", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+  
+  app.patch("/api/admin/users/:id/role", requirePermission("users:manage"), async (req, res) => {
+    const { role } = req.body;
+    if (!isUserRole(role)) {
+      return res.status(400).json({ message: "Invalid role" });
+    }
+    
+    const id = parseInt(req.params.id);
+    if (id === req.user!.id && role !== "admin") {
+      return res.status(409).json({ message: "You cannot remove your own admin role" });
+    }
+    
+    try {
+      const user = await storage.updateUser(id, { role }, req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+  
+  app.post("/api/admin/users/:id/deactivate", requirePermission("users:manage"), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (id === req.user!.id) {
+      return res.status(409).json({ message: "You cannot deactivate your own account" });
+    }
+    
+    try {
+      const user = await storage.updateUser(id, { active: false }, req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to deactivate user" });
+    }
+  });
+  
+  app.post("/api/admin/users/:id/activate", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const user = await storage.updateUser(parseInt(req.params.id), { active: true }, req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to activate user" });
+    }
+  });
+  
+  app.get("/api/admin/invitations", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const invitations = await storage.getInvitations();
+      res.json(invitations.map(({ tokenHash, ...invitation }) => invitation));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch invitations" });
+    }
+  });
+  
+  app.post("/api/admin/invitations", requirePermission("users:manage"), async (req, res) => {
+    const schema = z.object({
+      role: z.enum(userRoles),
+      email: z.string().email().optional(),
+      expiresInHours: z.number().int().min(1).max(24 * 30).default(72),
+    });
+    
+    try {
+      const { role, email, expiresInHours } = schema.parse(req.body);
+      const token = generateToken();
+      const { tokenHash, ...invitation } = await storage.createInvitation({
+        tokenHash: hashToken(token),
+        role,
+        email: email ?? null,
+        createdBy: req.user!.id,
+        expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString(),
+      });
+      
+      // O token só é exibido uma vez, na criação
+      res.status(201).json({ ...invitation, token });
+    } catch (error) {
+      res.status(400).json({ message: "Invalid invitation data" });
+    }
+  });
+  
+  app.delete("/api/admin/invitations/:id", requirePermission("users:manage"), async (req, res) => {
+    try {
+      const success = await storage.revokeInvitation(parseInt(req.params.id));
+      if (!success) {
+        return res.status(404).json({ message: "Invitation not found or already used" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
   
   const httpServer = createServer(app);
   return httpServer;
@@ -0,0 +1,172 @@
+import { createHash, createHmac } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Backend onde ficam os bytes dos anexos; os metadados ficam na tabela attachments
+export interface AttachmentStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, mimeType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+export class AttachmentNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Attachment object ${key} not found`);
+  }
+}
+
+export class LocalAttachmentStorage implements AttachmentStorage {
+  readonly name = "local";
+
+  constructor(private root: string) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid attachment key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Grava em arquivo temporário e renomeia, para nunca expor um arquivo pela metade
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, data);
+    await fs.rename(tempPath, filePath);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new AttachmentNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+}
+
+export interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data).digest();
+}
+
+// Cliente mínimo para APIs compatíveis com S3 (AWS, MinIO), assinado com SigV4
+// e endereçamento por caminho (endpoint/bucket/key), que o MinIO exige por padrão
+export class S3AttachmentStorage implements AttachmentStorage {
+  readonly name = "s3";
+
+  constructor(private config: S3Config) {}
+
+  private async request(method: "GET" | "PUT" | "DELETE", key: string, body?: Buffer, mimeType?: string): Promise<Response> {
+    const url = new URL(`${this.config.endpoint.replace(/\/+$/, "")}/${this.config.bucket}/${key.split("/").map(encodeURIComponent).join("/")}`);
+    const payloadHash = sha256Hex(body ?? "");
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const dateStamp = amzDate.substring(0, 8);
+    const scope = `${dateStamp}/${this.config.region}/s3/aws4_request`;
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": payloadHash,
+      "x-amz-date": amzDate,
+    };
+    if (mimeType) headers["content-type"] = mimeType;
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      ...signedHeaders.map(name => `${name}:${headers[name]}`),
+      "",
+      signedHeaders.join(";"),
+      payloadHash,
+    ].join("\n");
+    const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+    const signingKey = ["s3", "aws4_request"].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.config.region),
+    );
+    const signature = createHmac("sha256", signingKey).update(stringToSign).digest("hex");
+
+    const { host, ...requestHeaders } = headers;
+    return await fetch(url, {
+      method,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+
+  async put(key: string, data: Buffer, mimeType: string): Promise<void> {
+    const response = await this.request("PUT", key, data, mimeType);
+    if (!response.ok) {
+      throw new Error(`S3 upload failed with ${response.status}: ${await response.text()}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.request("GET", key);
+    if (response.status === 404) {
+      throw new AttachmentNotFoundError(key);
+    }
+    if (!response.ok) {
+      throw new Error(`S3 download failed with ${response.status}: ${await response.text()}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request("DELETE", key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 delete failed with ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+let attachmentStorage: AttachmentStorage | undefined;
+
+// ATTACHMENT_STORAGE=local (padrão, em ATTACHMENT_DIR) ou s3 (S3_* no ambiente)
+export function getAttachmentStorage(): AttachmentStorage {
+  if (!attachmentStorage) {
+    if (process.env.ATTACHMENT_STORAGE === "s3") {
+      const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+      if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+        throw new Error("S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for S3 attachment storage");
+      }
+      const region = S3_REGION || "us-east-1";
+      attachmentStorage = new S3AttachmentStorage({
+        endpoint: S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+        region,
+        bucket: S3_BUCKET,
+        accessKeyId: S3_ACCESS_KEY_ID,
+        secretAccessKey: S3_SECRET_ACCESS_KEY,
+      });
+    } else {
+      attachmentStorage = new LocalAttachmentStorage(process.env.ATTACHMENT_DIR || path.resolve("uploads", "attachments"));
+    }
+  }
+  return attachmentStorage;
+}
@@ -0,0 +1,89 @@
+import { createHash } from "crypto";
+import type { AttachmentKind } from "@shared/schema";
+
+const MB = 1024 * 1024;
+
+interface AttachmentPolicy {
+  maxBytes: number;
+  mimeTypes: readonly string[];
+}
+
+const imageTypes = ["image/png", "image/jpeg", "image/webp", "image/svg+xml"] as const;
+
+// Limites por tipo de anexo; arte costuma vir em arquivos grandes (PDF, AI/EPS, PSD, TIFF)
+export const attachmentPolicies: Record<AttachmentKind, AttachmentPolicy> = {
+  logo: { maxBytes: 2 * MB, mimeTypes: imageTypes },
+  artwork: {
+    maxBytes: 50 * MB,
+    mimeTypes: [...imageTypes, "image/tiff", "application/pdf", "application/postscript", "image/vnd.adobe.photoshop", "application/zip"],
+  },
+  document: { maxBytes: 20 * MB, mimeTypes: [...imageTypes, "application/pdf", "application/xml", "text/plain"] },
+  import: { maxBytes: 20 * MB, mimeTypes: ["application/pdf", "application/xml"] },
+};
+
+export const MAX_ATTACHMENT_BYTES = Math.max(...Object.values(attachmentPolicies).map(policy => policy.maxBytes));
+
+export class AttachmentValidationError extends Error {
+  constructor(message: string, public status: 413 | 415) {
+    super(message);
+  }
+}
+
+// Assinaturas (magic bytes) dos formatos aceitos; o tipo enviado pelo navegador não é confiável
+const signatures: { mimeType: string; bytes: number[]; offset?: number }[] = [
+  { mimeType: "image/png", bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: "image/jpeg", bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: "image/webp", bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  { mimeType: "image/tiff", bytes: [0x49, 0x49, 0x2a, 0x00] },
+  { mimeType: "image/tiff", bytes: [0x4d, 0x4d, 0x00, 0x2a] },
+  { mimeType: "application/pdf", bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { mimeType: "application/postscript", bytes: [0x25, 0x21, 0x50, 0x53] },
+  { mimeType: "image/vnd.adobe.photoshop", bytes: [0x38, 0x42, 0x50, 0x53] },
+  { mimeType: "application/zip", bytes: [0x50, 0x4b, 0x03, 0x04] },
+];
+
+export function detectMimeType(data: Buffer): string | null {
+  const match = signatures.find(({ bytes, offset = 0 }) =>
+    data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte)
+  );
+  if (match) return match.mimeType;
+
+  // Formatos de texto: SVG e XML (NF-e) pelo início do conteúdo
+  const head = data.subarray(0, 512).toString("utf8").replace(/^\uFEFF/, "").trimStart();
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(head)) return "image/svg+xml";
+  if (/^<(!doctype\s+)?html[\s>]/i.test(head)) return null;
+  if (/^<(\?xml|[A-Za-z_][\w.:-]*[\s>])/.test(head)) return "application/xml";
+  if (!data.subarray(0, 512).includes(0)) return "text/plain";
+  return null;
+}
+
+export function sha256(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+// O conteúdo é endereçado pelo hash: arquivos iguais ocupam um único objeto no backend
+export function buildStorageKey(hash: string): string {
+  return `${hash.substring(0, 2)}/${hash}`;
+}
+
+export function validateAttachment(kind: AttachmentKind, data: Buffer): string {
+  const policy = attachmentPolicies[kind];
+  if (data.length === 0) {
+    throw new AttachmentValidationError("File is empty", 415);
+  }
+  if (data.length > policy.maxBytes) {
+    throw new AttachmentValidationError(`File exceeds the ${policy.maxBytes / MB} MB limit for ${kind} attachments`, 413);
+  }
+
+  const mimeType = detectMimeType(data);
+  if (!mimeType || !policy.mimeTypes.includes(mimeType)) {
+    throw new AttachmentValidationError(`File type ${mimeType ?? "unknown"} is not allowed for ${kind} attachments`, 415);
+  }
+  return mimeType;
+}
+
+// Nome seguro para Content-Disposition
+export function sanitizeFileName(fileName: string): string {
+  const base = fileName.split(/[\\/]/).pop() || "file";
+  return base.replace(/[\x00-\x1f\x7f"]/g, "").substring(0, 200) || "file";
+}
@@ -0,0 +1,360 @@
+// Importação em lote de clientes e notas a partir de planilhas (migração do histórico).
+// Cada linha é convertida dos formatos brasileiros e validada pelos schemas de inserção;
+// a efetivação só acontece se nenhuma linha tiver erro.
+import { insertClientSchema, insertInvoiceSchema, paymentMethods, type Client, type InsertClient, type InsertInvoice } from "@shared/schema";
+import { onlyDigits } from "@shared/documents";
+import { z } from "zod";
+import { normalizeClientName } from "./client-matching";
+import { parseBrazilianDate, parseBrazilianNumber } from "./rule-based-extractor";
+import type { SpreadsheetValue } from "./spreadsheet";
+
+// Mapeamento informado pelo usuário: campo do sistema → cabeçalho da coluna na planilha
+export type BulkImportMapping = Record<string, string>;
+
+// Problemas na planilha como um todo (cabeçalho, mapeamento); respondidos com 400
+export class BulkImportError extends Error {}
+
+export interface BulkImportRowError {
+  row: number;
+  field?: string;
+  message: string;
+}
+
+export interface BulkImportResult<T> {
+  rows: { row: number; data: T }[];
+  errors: BulkImportRowError[];
+}
+
+export type InvoiceImportRow = {
+  invoice: InsertInvoice;
+  payment: { amount: string; paidAt: string; method: typeof paymentMethods[number] } | null;
+};
+
+interface ImportField {
+  aliases: string[];
+  required?: boolean;
+}
+
+// Cabeçalhos reconhecidos automaticamente quando a coluna não é mapeada
+const clientFields: Record<string, ImportField> = {
+  name: { aliases: ["nome", "razao social", "cliente"], required: true },
+  subName: { aliases: ["nome fantasia", "fantasia"] },
+  document: { aliases: ["cnpj", "cpf", "cnpj cpf", "cpf cnpj", "documento"] },
+  stateRegistration: { aliases: ["ie", "inscricao estadual"] },
+  paymentTerms: { aliases: ["prazo", "prazo de pagamento", "condicao de pagamento"] },
+  contactName: { aliases: ["contato", "nome do contato"] },
+  email: { aliases: ["e mail"] },
+  phone: { aliases: ["telefone", "fone"] },
+  whatsapp: { aliases: ["celular"] },
+  street: { aliases: ["logradouro", "endereco", "rua"] },
+  number: { aliases: ["numero", "n"] },
+  complement: { aliases: ["complemento"] },
+  district: { aliases: ["bairro"] },
+  city: { aliases: ["cidade", "municipio"] },
+  state: { aliases: ["uf", "estado"] },
+  postalCode: { aliases: ["cep"] },
+};
+
+const invoiceFields: Record<string, ImportField> = {
+  number: { aliases: ["numero", "nota", "numero da nota", "nf"], required: true },
+  client: { aliases: ["cliente", "nome", "razao social", "tomador", "destinatario"] },
+  clientDocument: { aliases: ["cnpj", "cpf", "cnpj cpf", "cpf cnpj", "documento"] },
+  issueDate: { aliases: ["emissao", "data de emissao", "data"], required: true },
+  dueDate: { aliases: ["vencimento", "data de vencimento"] },
+  amount: { aliases: ["valor", "valor total", "total"], required: true },
+  paymentTerms: { aliases: ["prazo", "prazo de pagamento", "condicao de pagamento"] },
+  status: { aliases: ["situacao"] },
+  notes: { aliases: ["observacoes", "observacao", "obs", "descricao"] },
+  paidAt: { aliases: ["pagamento", "data de pagamento", "pago em"] },
+  paidAmount: { aliases: ["valor pago"] },
+  paymentMethod: { aliases: ["forma de pagamento", "meio de pagamento"] },
+};
+
+// Status aceitos na planilha; pago/parcial vêm das colunas de pagamento e vencida do agendador
+const statusAliases: Record<string, "draft" | "pending" | "cancelled"> = {
+  draft: "draft",
+  rascunho: "draft",
+  pending: "pending",
+  pendente: "pending",
+  aberta: "pending",
+  "em aberto": "pending",
+  cancelled: "cancelled",
+  cancelada: "cancelled",
+  cancelado: "cancelled",
+};
+
+const methodAliases: Record<string, typeof paymentMethods[number]> = {
+  pix: "pix",
+  boleto: "boleto",
+  cash: "cash",
+  dinheiro: "cash",
+  especie: "cash",
+  transfer: "transfer",
+  transferencia: "transfer",
+  ted: "transfer",
+  doc: "transfer",
+  deposito: "transfer",
+};
+
+function normalizeHeader(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+export function parseImportMapping(value: unknown): BulkImportMapping {
+  if (value === undefined || value === "") return {};
+  let mapping: unknown = value;
+  if (typeof value === "string") {
+    try {
+      mapping = JSON.parse(value);
+    } catch {
+      throw new BulkImportError("Column mapping must be a JSON object");
+    }
+  }
+  const result = z.record(z.string().min(1)).safeParse(mapping);
+  if (!result.success) throw new BulkImportError("Column mapping must map field names to column headers");
+  return result.data;
+}
+
+// Índice da coluna de cada campo: mapeamento explícito primeiro, depois o nome do campo ou um alias
+function resolveColumns(header: SpreadsheetValue[], fields: Record<string, ImportField>, mapping: BulkImportMapping): Map<string, number> {
+  const headers = header.map(value => normalizeHeader(String(value ?? "")));
+  const columns = new Map<string, number>();
+
+  for (const [field, column] of Object.entries(mapping)) {
+    if (!fields[field]) {
+      throw new BulkImportError(`Unknown field "${field}" in column mapping; expected one of ${Object.keys(fields).join(", ")}`);
+    }
+    const index = headers.indexOf(normalizeHeader(column));
+    if (index === -1) throw new BulkImportError(`Column "${column}" mapped to ${field} was not found in the header row`);
+    columns.set(field, index);
+  }
+
+  const claimed = new Set(columns.values());
+  for (const [field, { aliases }] of Object.entries(fields)) {
+    if (columns.has(field)) continue;
+    const index = headers.findIndex((header, i) => !claimed.has(i) && (header === normalizeHeader(field) || aliases.includes(header)));
+    if (index !== -1) {
+      columns.set(field, index);
+      claimed.add(index);
+    }
+  }
+
+  for (const [field, { required }] of Object.entries(fields)) {
+    if (required && !columns.has(field)) {
+      throw new BulkImportError(`No column found for required field "${field}"; add it to the column mapping`);
+    }
+  }
+  return columns;
+}
+
+// Percorre as linhas de dados (a primeira linha é o cabeçalho), ignorando linhas vazias.
+// Os números de linha seguem a planilha: o cabeçalho é a linha 1.
+function readRows(table: SpreadsheetValue[][], fields: Record<string, ImportField>, mapping: BulkImportMapping) {
+  const [header, ...rows] = table;
+  if (!header) throw new BulkImportError("Spreadsheet is empty");
+  const columns = resolveColumns(header, fields, mapping);
+
+  return rows.flatMap((cells, index) => {
+    if (!cells.some(value => value !== null && value !== "")) return [];
+    const values: Record<string, SpreadsheetValue> = {};
+    for (const field of Object.keys(fields)) {
+      const value = columns.has(field) ? cells[columns.get(field)!] ?? null : null;
+      values[field] = value === "" ? null : value;
+    }
+    return [{ row: index + 2, values }];
+  });
+}
+
+function text(value: SpreadsheetValue): string | undefined {
+  if (value === null) return undefined;
+  return typeof value === "number" && Number.isInteger(value) ? value.toFixed(0) : String(value);
+}
+
+// Planilhas costumam guardar CNPJ/CPF e CEP como número, perdendo os zeros à esquerda
+function digitsText(value: SpreadsheetValue, lengths: number[]): string | undefined {
+  if (typeof value !== "number") return text(value);
+  const digits = value.toFixed(0);
+  const length = lengths.find(length => digits.length <= length) ?? digits.length;
+  return digits.padStart(length, "0");
+}
+
+// "1.234,56", "1234,56", "R$ 1.234,56" e "1234.56"; células numéricas do XLSX passam direto
+export function parseSpreadsheetNumber(value: SpreadsheetValue): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string") return null;
+  const trimmed = value.replace(/R\$\s*/, "").trim();
+
+  let parsed: number;
+  if (trimmed.includes(",")) parsed = parseBrazilianNumber(trimmed);
+  else if (/^-?\d{1,3}(\.\d{3})+$/.test(trimmed)) parsed = parseFloat(trimmed.replace(/\./g, ""));
+  else parsed = /^-?\d+(\.\d+)?$/.test(trimmed) ? parseFloat(trimmed) : NaN;
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+// dd/mm/aaaa (com ou sem zeros à esquerda), aaaa-mm-dd ou número serial de data do Excel
+export function parseSpreadsheetDate(value: SpreadsheetValue): string | null {
+  if (typeof value === "number") {
+    if (value < 1) return null;
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(value) * 86_400_000);
+    return date.toISOString().substring(0, 10);
+  }
+  if (typeof value !== "string") return null;
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return parseBrazilianDate(`${iso[3]}/${iso[2]}/${iso[1]}`);
+  const brazilian = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (brazilian) return parseBrazilianDate(`${brazilian[1].padStart(2, "0")}/${brazilian[2].padStart(2, "0")}/${brazilian[3]}`);
+  return null;
+}
+
+function zodErrors(row: number, error: z.ZodError): BulkImportRowError[] {
+  return error.errors.map(issue => ({ row, field: issue.path.join(".") || undefined, message: issue.message }));
+}
+
+export function parseClientImport(table: SpreadsheetValue[][], mapping: BulkImportMapping, existing: Client[]): BulkImportResult<InsertClient> {
+  const result: BulkImportResult<InsertClient> = { rows: [], errors: [] };
+  const registered = new Map(existing.filter(client => client.document && !client.deletedAt).map(client => [client.document!, client.name]));
+  const seen = new Map<string, number>();
+
+  for (const { row, values } of readRows(table, clientFields, mapping)) {
+    const address = {
+      street: text(values.street),
+      number: text(values.number),
+      complement: text(values.complement),
+      district: text(values.district),
+      city: text(values.city),
+      state: text(values.state),
+      postalCode: digitsText(values.postalCode, [8]),
+    };
+    const contact = {
+      name: text(values.contactName) ?? text(values.name),
+      email: text(values.email),
+      phone: digitsText(values.phone, []),
+      whatsapp: digitsText(values.whatsapp, []),
+      isPrimary: true,
+    };
+
+    const parsed = insertClientSchema.safeParse({
+      name: text(values.name),
+      subName: text(values.subName),
+      document: digitsText(values.document, [11, 14]),
+      stateRegistration: text(values.stateRegistration),
+      paymentTerms: text(values.paymentTerms),
+      billingAddress: Object.values(address).some(Boolean) ? address : undefined,
+      contacts: contact.email || contact.phone || contact.whatsapp ? [contact] : [],
+    });
+    if (!parsed.success) {
+      result.errors.push(...zodErrors(row, parsed.error));
+      continue;
+    }
+
+    const { document } = parsed.data;
+    if (document) {
+      if (registered.has(document)) {
+        result.errors.push({ row, field: "document", message: `CNPJ/CPF is already registered to client ${registered.get(document)}` });
+        continue;
+      }
+      if (seen.has(document)) {
+        result.errors.push({ row, field: "document", message: `CNPJ/CPF repeats row ${seen.get(document)}` });
+        continue;
+      }
+      seen.set(document, row);
+    }
+    result.rows.push({ row, data: parsed.data });
+  }
+  return result;
+}
+
+// Cliente da nota pelo CNPJ/CPF ou, na falta dele, pelo nome normalizado exato
+function resolveImportClient(values: Record<string, SpreadsheetValue>, clients: Client[]): Client | string {
+  const document = onlyDigits(digitsText(values.clientDocument, [11, 14]) ?? "");
+  if (document) {
+    return clients.find(client => client.document === document) ?? `No client with CNPJ/CPF ${document}; import the client first`;
+  }
+
+  const name = text(values.client);
+  if (!name) return "Client name or CNPJ/CPF is required";
+  const normalized = normalizeClientName(name);
+  const matches = clients.filter(client => normalizeClientName(client.name) === normalized);
+  if (matches.length === 1) return matches[0];
+  return matches.length === 0
+    ? `No client named "${name}"; import the client first`
+    : `More than one client is named "${name}"; add a CNPJ/CPF column`;
+}
+
+export function parseInvoiceImport(
+  table: SpreadsheetValue[][],
+  mapping: BulkImportMapping,
+  existing: { clients: Client[]; invoiceNumbers: string[] },
+): BulkImportResult<InvoiceImportRow> {
+  const result: BulkImportResult<InvoiceImportRow> = { rows: [], errors: [] };
+  const activeClients = existing.clients.filter(client => !client.deletedAt);
+  const numbers = new Set(existing.invoiceNumbers);
+  const seen = new Map<string, number>();
+
+  for (const { row, values } of readRows(table, invoiceFields, mapping)) {
+    const errors: BulkImportRowError[] = [];
+    const client = resolveImportClient(values, activeClients);
+    if (typeof client === "string") errors.push({ row, field: "client", message: client });
+
+    const issueDate = parseSpreadsheetDate(values.issueDate);
+    if (!issueDate) errors.push({ row, field: "issueDate", message: "Issue date must be dd/mm/yyyy" });
+    const dueDate = values.dueDate === null ? null : parseSpreadsheetDate(values.dueDate);
+    if (dueDate === null && values.dueDate !== null) errors.push({ row, field: "dueDate", message: "Due date must be dd/mm/yyyy" });
+
+    const amount = parseSpreadsheetNumber(values.amount);
+    if (amount === null || amount <= 0) errors.push({ row, field: "amount", message: "Amount must be a positive number like 1.234,56" });
+
+    const statusText = text(values.status);
+    const status = statusText ? statusAliases[normalizeHeader(statusText)] : "pending";
+    if (!status) {
+      errors.push({ row, field: "status", message: "Status must be draft, pending or cancelled; paid invoices need a payment date" });
+    }
+
+    let payment: InvoiceImportRow["payment"] = null;
+    if (values.paidAt !== null || values.paidAmount !== null) {
+      const paidAt = parseSpreadsheetDate(values.paidAt);
+      const paidAmount = values.paidAmount === null ? amount : parseSpreadsheetNumber(values.paidAmount);
+      const methodText = text(values.paymentMethod);
+      const method = methodText ? methodAliases[normalizeHeader(methodText)] : "transfer";
+
+      if (!paidAt) errors.push({ row, field: "paidAt", message: "Payment date must be dd/mm/yyyy" });
+      if (paidAmount === null || paidAmount <= 0) errors.push({ row, field: "paidAmount", message: "Paid amount must be a positive number" });
+      else if (amount !== null && paidAmount > amount) errors.push({ row, field: "paidAmount", message: "Paid amount exceeds the invoice amount" });
+      if (!method) errors.push({ row, field: "paymentMethod", message: `Payment method must be one of ${paymentMethods.join(", ")}` });
+      if (status && status !== "pending") errors.push({ row, field: "status", message: `Payments cannot be imported on ${status} invoices` });
+      if (paidAt && paidAmount && method) payment = { amount: paidAmount.toFixed(2), paidAt, method };
+    }
+
+    const number = text(values.number);
+    if (number && numbers.has(number)) errors.push({ row, field: "number", message: `Invoice number ${number} already exists` });
+    else if (number && seen.has(number)) errors.push({ row, field: "number", message: `Invoice number ${number} repeats row ${seen.get(number)}` });
+    if (number) seen.set(number, row);
+
+    const parsed = insertInvoiceSchema.safeParse({
+      number,
+      clientId: typeof client === "string" ? undefined : client.id,
+      issueDate,
+      dueDate: dueDate ?? undefined,
+      amount: amount?.toFixed(2),
+      paymentTerms: text(values.paymentTerms),
+      status,
+      notes: text(values.notes),
+    });
+    if (!parsed.success) {
+      errors.push(...zodErrors(row, parsed.error).filter(error => !errors.some(known => known.field === error.field)));
+    }
+
+    if (errors.length > 0 || !parsed.success) {
+      result.errors.push(...errors);
+      continue;
+    }
+    result.rows.push({ row, data: { invoice: parsed.data, payment } });
+  }
+  return result;
+}
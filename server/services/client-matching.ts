@@ -0,0 +1,105 @@
+import type { Client, ClientDuplicate } from "@shared/schema";
+
+// Abaixo disso a sugestão não é aplicada automaticamente; fica para a revisão
+export const CLIENT_MATCH_THRESHOLD = 0.75;
+
+// Pares abaixo disso não aparecem na lista de possíveis duplicados
+export const DUPLICATE_THRESHOLD = 0.85;
+
+// Sufixos societários e palavras que não ajudam a distinguir empresas
+const STOP_WORDS = new Set(["ltda", "me", "epp", "eireli", "mei", "sa", "cia", "comercio", "servicos", "de", "da", "do", "das", "dos", "e"]);
+
+export function normalizeClientName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\bs\/a\b/g, "sa")
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter(word => word && !STOP_WORDS.has(word))
+    .join(" ");
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/ /g, "");
+  return Array.from({ length: Math.max(0, compact.length - 1) }, (_, i) => compact.substring(i, i + 2));
+}
+
+// Coeficiente de Dice sobre bigramas: tolera erros de leitura e abreviações
+export function nameSimilarity(a: string, b: string): number {
+  return normalizedSimilarity(normalizeClientName(a), normalizeClientName(b));
+}
+
+function normalizedSimilarity(left: string, right: string): number {
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const bigram of leftBigrams) {
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  let overlap = 0;
+  for (const bigram of rightBigrams) {
+    const count = counts.get(bigram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(bigram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+}
+
+export interface ClientMatch {
+  client: Client;
+  score: number;
+}
+
+// Candidatos ordenados pela similaridade do nome (e do nome fantasia)
+export function findClientMatches(name: string, candidates: Client[], limit = 3): ClientMatch[] {
+  return candidates
+    .map(client => ({
+      client,
+      score: Math.max(nameSimilarity(name, client.name), client.subName ? nameSimilarity(name, client.subName) : 0),
+    }))
+    .filter(match => match.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Pares de clientes possivelmente duplicados: mesmo CNPJ/CPF ou nomes equivalentes depois
+// da normalização. Documentos diferentes indicam empresas distintas e o par é ignorado.
+export function findDuplicateClients(clients: Client[], minScore = DUPLICATE_THRESHOLD): ClientDuplicate[] {
+  const names = clients.map(client => [client.name, client.subName].filter((name): name is string => Boolean(name)).map(normalizeClientName));
+  const duplicates: ClientDuplicate[] = [];
+
+  for (let i = 0; i < clients.length; i++) {
+    for (let j = i + 1; j < clients.length; j++) {
+      const [a, b] = [clients[i], clients[j]];
+      if (a.document && b.document && a.document !== b.document) continue;
+
+      const reasons: ClientDuplicate["reasons"] = [];
+      if (a.document && a.document === b.document) reasons.push("document");
+
+      let nameScore = 0;
+      for (const left of names[i]) {
+        for (const right of names[j]) {
+          nameScore = Math.max(nameScore, normalizedSimilarity(left, right));
+        }
+      }
+      if (nameScore >= minScore) reasons.push("name");
+
+      const score = reasons.includes("document") ? 1 : nameScore;
+      if (reasons.length > 0) {
+        duplicates.push({ clients: [a, b], score, reasons });
+      }
+    }
+  }
+
+  return duplicates.sort((x, y) => y.score - x.score || x.clients[0].id - y.clients[0].id);
+}
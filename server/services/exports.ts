@@ -0,0 +1,201 @@
+// Exportações para a contabilidade: CSV e XLSX com formatação brasileira e o leiaute fixo de
+// lançamentos contábeis. Os writers recebem as linhas em lotes e escrevem direto na resposta.
+import type { Writable } from "stream";
+import type { ExportFormat, InvoiceWithClient, PaymentWithInvoice } from "@shared/schema";
+import { formatDocument } from "@shared/documents";
+import { XlsxStreamWriter, drained, type XlsxColumn } from "./xlsx-writer";
+
+export interface ExportColumn<T> extends XlsxColumn {
+  value: (row: T) => string | number | null;
+}
+
+export interface ExportWriter<T> {
+  start(): Promise<void>;
+  write(rows: T[]): Promise<void>;
+  finish(): Promise<void>;
+}
+
+const statusLabels: Record<string, string> = {
+  draft: "Rascunho",
+  pending: "Pendente",
+  partial: "Parcialmente paga",
+  paid: "Paga",
+  overdue: "Vencida",
+  cancelled: "Cancelada",
+};
+
+const methodLabels: Record<string, string> = {
+  pix: "PIX",
+  boleto: "Boleto",
+  cash: "Dinheiro",
+  transfer: "Transferência",
+};
+
+function money(value: string | null): number | null {
+  return value === null ? null : parseFloat(value);
+}
+
+function document(client: { document: string | null } | null): string | null {
+  return client?.document ? formatDocument(client.document) : null;
+}
+
+export const invoiceExportColumns: ExportColumn<InvoiceWithClient>[] = [
+  { header: "Número", type: "text", value: invoice => invoice.number },
+  { header: "Cliente", type: "text", value: invoice => invoice.client?.name ?? null },
+  { header: "CNPJ/CPF", type: "text", value: invoice => document(invoice.client) },
+  { header: "Emissão", type: "date", value: invoice => invoice.issueDate },
+  { header: "Vencimento", type: "date", value: invoice => invoice.dueDate },
+  { header: "Situação", type: "text", value: invoice => statusLabels[invoice.status ?? "pending"] ?? invoice.status },
+  { header: "Subtotal", type: "money", value: invoice => money(invoice.subtotal) },
+  { header: "Descontos", type: "money", value: invoice => money(invoice.discountTotal) },
+  { header: "Impostos", type: "money", value: invoice => money(invoice.taxTotal) },
+  { header: "Valor", type: "money", value: invoice => money(invoice.amount) },
+  { header: "Saldo", type: "money", value: invoice => money(invoice.balanceDue) },
+  { header: "Chave de acesso", type: "text", value: invoice => invoice.accessKey },
+];
+
+export const paymentExportColumns: ExportColumn<PaymentWithInvoice>[] = [
+  { header: "Data", type: "date", value: payment => payment.paidAt },
+  { header: "Nota", type: "text", value: payment => payment.invoice.number },
+  { header: "Cliente", type: "text", value: payment => payment.client?.name ?? null },
+  { header: "CNPJ/CPF", type: "text", value: payment => document(payment.client) },
+  { header: "Forma", type: "text", value: payment => methodLabels[payment.method] ?? payment.method },
+  { header: "Referência", type: "text", value: payment => payment.reference },
+  { header: "Valor", type: "money", value: payment => money(payment.amount) },
+];
+
+async function write(out: Writable, chunk: string | Buffer): Promise<void> {
+  if (out.destroyed) return;
+  if (!out.write(chunk)) await drained(out);
+}
+
+const decimal = new Intl.NumberFormat("pt-BR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function formatBrazilianNumber(value: number): string {
+  return decimal.format(value);
+}
+
+export function formatBrazilianDate(value: string): string {
+  const [year, month, day] = value.substring(0, 10).split("-");
+  return `${day}/${month}/${year}`;
+}
+
+// Texto iniciado por =, +, -, @, tab ou CR seria lido como fórmula pelo Excel (CSV injection)
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function csvField(value: string): string {
+  return /[";\r\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+}
+
+// CSV no padrão do Excel em português: ";" como separador e BOM para reconhecer o UTF-8
+export function csvExportWriter<T>(out: Writable, columns: ExportColumn<T>[]): ExportWriter<T> {
+  const line = (values: string[]) => values.map(csvField).join(";") + "\r\n";
+  return {
+    start: () => write(out, "\uFEFF" + line(columns.map(column => column.header))),
+    write: (rows) => write(out, rows.map(row => line(columns.map(column => {
+      const value = column.value(row);
+      if (value === null) return "";
+      if (column.type === "money") return formatBrazilianNumber(Number(value));
+      if (column.type === "date") return formatBrazilianDate(String(value));
+      return neutralizeFormula(String(value));
+    }))).join("")),
+    finish: async () => {},
+  };
+}
+
+export function xlsxExportWriter<T>(out: Writable, columns: ExportColumn<T>[], sheetName: string): ExportWriter<T> {
+  const xlsx = new XlsxStreamWriter(out, columns, sheetName);
+  return {
+    start: () => xlsx.start(),
+    write: async (rows) => {
+      for (const row of rows) await xlsx.addRow(columns.map(column => column.value(row)));
+    },
+    finish: () => xlsx.finish(),
+  };
+}
+
+export interface AccountingAccounts {
+  receivable: string;
+  revenue: string;
+  bank: string;
+  cash: string;
+}
+
+export function getAccountingAccounts(): AccountingAccounts {
+  return {
+    receivable: process.env.ACCOUNTING_RECEIVABLE_ACCOUNT || "1.1.2.01",
+    revenue: process.env.ACCOUNTING_REVENUE_ACCOUNT || "3.1.1.01",
+    bank: process.env.ACCOUNTING_BANK_ACCOUNT || "1.1.1.02",
+    cash: process.env.ACCOUNTING_CASH_ACCOUNT || "1.1.1.01",
+  };
+}
+
+export interface JournalLine {
+  date: string;
+  account: string;
+  nature: "D" | "C";
+  amount: string;
+  history: string;
+}
+
+// Faturamento: débito em clientes a receber, crédito em receita. Rascunhos e canceladas ficam de fora.
+export function invoiceJournal(invoice: InvoiceWithClient, accounts: AccountingAccounts): JournalLine[] {
+  if (invoice.status === "draft" || invoice.status === "cancelled") return [];
+  const history = `NF ${invoice.number} - ${invoice.client?.name ?? "SEM CLIENTE"}`;
+  return [
+    { date: invoice.issueDate, account: accounts.receivable, nature: "D", amount: invoice.amount, history },
+    { date: invoice.issueDate, account: accounts.revenue, nature: "C", amount: invoice.amount, history },
+  ];
+}
+
+// Recebimento: débito no banco (ou caixa, para dinheiro), crédito em clientes a receber
+export function paymentJournal(payment: PaymentWithInvoice, accounts: AccountingAccounts): JournalLine[] {
+  const history = `RECEBIMENTO NF ${payment.invoice.number} - ${payment.client?.name ?? "SEM CLIENTE"}`;
+  return [
+    { date: payment.paidAt, account: payment.method === "cash" ? accounts.cash : accounts.bank, nature: "D", amount: payment.amount, history },
+    { date: payment.paidAt, account: accounts.receivable, nature: "C", amount: payment.amount, history },
+  ];
+}
+
+// Leiaute de largura fixa (Windows-1252, linhas terminadas em CRLF):
+//   1-8     data DDMMAAAA
+//   9-28    conta contábil, alinhada à esquerda
+//   29      natureza: D (débito) ou C (crédito)
+//   30-46   valor em centavos, com zeros à esquerda
+//   47-246  histórico, sem acentos e em maiúsculas
+export function formatJournalLine(line: JournalLine): string {
+  const [year, month, day] = line.date.substring(0, 10).split("-");
+  const cents = Math.round(parseFloat(line.amount) * 100).toString().padStart(17, "0");
+  const history = line.history
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, " ")
+    .toUpperCase();
+  return `${day}${month}${year}${line.account.padEnd(20).substring(0, 20)}${line.nature}${cents}${history.padEnd(200).substring(0, 200)}\r\n`;
+}
+
+export function accountingExportWriter<T>(out: Writable, journal: (row: T) => JournalLine[]): ExportWriter<T> {
+  return {
+    start: async () => {},
+    write: (rows) => write(out, Buffer.from(rows.flatMap(journal).map(formatJournalLine).join(""), "latin1")),
+    finish: async () => {},
+  };
+}
+
+export const exportContentTypes: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  xlsx: { contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", extension: "xlsx" },
+  accounting: { contentType: "text/plain; charset=windows-1252", extension: "txt" },
+};
+
+export function createExportWriter<T>(
+  format: ExportFormat,
+  out: Writable,
+  options: { columns: ExportColumn<T>[]; journal: (row: T) => JournalLine[]; sheetName: string },
+): ExportWriter<T> {
+  if (format === "xlsx") return xlsxExportWriter(out, options.columns, options.sheetName);
+  if (format === "accounting") return accountingExportWriter(out, options.journal);
+  return csvExportWriter(out, options.columns);
+}
@@ -0,0 +1,283 @@
+import type { FiscalDocument, FiscalParty, InsertInvoice, InvoiceItem } from "@shared/schema";
+import { parseXml, findElement, findElements, elementText, XmlParseError, type XmlElement } from "./xml";
+import { onlyDigits } from "@shared/documents";
+
+// Importação de NF-e (nfeProc, layout 4.00) e NFS-e (padrão ABRASF 1.x e 2.x). Os valores do
+// XML são a fonte da verdade: a nota gerada precisa fechar com o total do documento.
+
+export class FiscalXmlError extends Error {}
+
+// cStat de NF-e autorizada (100) e autorizada fora de prazo (150)
+const AUTHORIZED_STATUSES = ["100", "150"];
+
+function decode(data: Buffer): string {
+  const head = data.subarray(0, 200).toString("latin1");
+  const encoding = /encoding\s*=\s*["']ISO-8859-1["']/i.test(head) ? "latin1" : "utf8";
+  return data.toString(encoding).replace(/^\uFEFF/, "");
+}
+
+function toNumber(value: string | undefined): number {
+  const parsed = value ? parseFloat(value) : 0;
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+// Chave de acesso: 44 dígitos, o último é o dígito verificador (módulo 11)
+export function isValidAccessKey(key: string): boolean {
+  if (!/^\d{44}$/.test(key)) return false;
+
+  let weight = 2;
+  let sum = 0;
+  for (let i = 42; i >= 0; i--) {
+    sum += parseInt(key[i]) * weight;
+    weight = weight === 9 ? 2 : weight + 1;
+  }
+  const rest = sum % 11;
+  const digit = rest < 2 ? 0 : 11 - rest;
+  return digit === parseInt(key[43]);
+}
+
+function party(element: XmlElement | undefined, nameTag: string): FiscalParty {
+  const document = findElement(element, "CNPJ")?.text ?? findElement(element, "Cnpj")?.text
+    ?? findElement(element, "CPF")?.text ?? findElement(element, "Cpf")?.text;
+  const name = findElement(element, nameTag)?.text.trim();
+  return {
+    document: document ? onlyDigits(document) || null : null,
+    name: name || null,
+  };
+}
+
+// Soma os valores das tags informadas em qualquer nível abaixo do elemento (ex.: ICMS00/vICMS)
+function sumTags(element: XmlElement | undefined, ...names: string[]): number {
+  return names.reduce((total, name) => total + findElements(element, name).reduce((sum, tag) => sum + toNumber(tag.text), 0), 0);
+}
+
+function parseNfe(document: XmlElement): FiscalDocument {
+  const infNfe = findElement(document, "infNFe");
+  if (!infNfe) throw new FiscalXmlError("NF-e XML has no infNFe element");
+
+  const infProt = findElement(document, "infProt");
+  if (!infProt) {
+    throw new FiscalXmlError("NF-e XML has no authorization protocol; import the nfeProc file");
+  }
+  const status = elementText(infProt, "cStat");
+  if (!status || !AUTHORIZED_STATUSES.includes(status)) {
+    throw new FiscalXmlError(`NF-e was not authorized (cStat ${status ?? "missing"}: ${elementText(infProt, "xMotivo") ?? "no reason given"})`);
+  }
+
+  const accessKey = elementText(infProt, "chNFe") ?? infNfe.attributes.Id?.replace(/^NFe/, "");
+  if (!accessKey || !isValidAccessKey(accessKey)) {
+    throw new FiscalXmlError(`Invalid NF-e access key: ${accessKey ?? "missing"}`);
+  }
+
+  const ide = findElement(infNfe, "ide");
+  const total = findElement(infNfe, "ICMSTot");
+  const issuedAt = elementText(ide, "dhEmi") ?? elementText(ide, "dEmi");
+  const dueDates = findElements(findElement(infNfe, "cobr"), "dup")
+    .map(dup => elementText(dup, "dVenc"))
+    .filter((date): date is string => Boolean(date))
+    .sort();
+
+  const items = findElements(infNfe, "det").map(det => {
+    const prod = findElement(det, "prod");
+    const imposto = findElement(det, "imposto");
+    const quantity = toNumber(elementText(prod, "qCom"));
+    const grossAmount = toNumber(elementText(prod, "vProd"));
+    const discount = toNumber(elementText(prod, "vDesc"));
+    const tax = round(sumTags(findElement(imposto, "IPI"), "vIPI") + sumTags(findElement(imposto, "ICMS"), "vICMSST", "vFCPST"));
+    return {
+      code: elementText(prod, "cProd") ?? null,
+      description: elementText(prod, "xProd") ?? "",
+      ncm: elementText(prod, "NCM") ?? null,
+      cfop: elementText(prod, "CFOP") ?? null,
+      unit: elementText(prod, "uCom") ?? null,
+      quantity,
+      unitPrice: toNumber(elementText(prod, "vUnCom")),
+      grossAmount,
+      discount,
+      tax,
+      total: round(grossAmount - discount + tax),
+    };
+  });
+
+  const taxes: Record<string, number> = {
+    icms: toNumber(elementText(total, "vICMS")),
+    icmsSt: toNumber(elementText(total, "vST")),
+    fcp: toNumber(elementText(total, "vFCP")),
+    fcpSt: toNumber(elementText(total, "vFCPST")),
+    ipi: toNumber(elementText(total, "vIPI")),
+    ii: toNumber(elementText(total, "vII")),
+    pis: toNumber(elementText(total, "vPIS")),
+    cofins: toNumber(elementText(total, "vCOFINS")),
+    approximate: toNumber(elementText(total, "vTotTrib")),
+  };
+
+  return {
+    kind: "nfe",
+    number: elementText(ide, "nNF") ?? "",
+    series: elementText(ide, "serie") ?? null,
+    accessKey,
+    verificationCode: null,
+    issueDate: issuedAt?.substring(0, 10) ?? "",
+    dueDate: dueDates[0] ?? null,
+    emitter: party(findElement(infNfe, "emit"), "xNome"),
+    recipient: party(findElement(infNfe, "dest"), "xNome"),
+    items,
+    totals: {
+      items: toNumber(elementText(total, "vProd")),
+      discount: toNumber(elementText(total, "vDesc")),
+      freight: toNumber(elementText(total, "vFrete")),
+      insurance: toNumber(elementText(total, "vSeg")),
+      other: toNumber(elementText(total, "vOutro")),
+      amount: toNumber(elementText(total, "vNF")),
+    },
+    taxes: Object.fromEntries(Object.entries(taxes).filter(([, value]) => value > 0)),
+  };
+}
+
+function parseNfse(document: XmlElement): FiscalDocument {
+  const notes = findElements(document, "InfNfse");
+  if (notes.length !== 1) {
+    throw new FiscalXmlError(`Expected exactly one NFS-e in the XML, found ${notes.length}`);
+  }
+  if (findElement(document, "NfseCancelamento")) {
+    throw new FiscalXmlError("NFS-e was cancelled");
+  }
+
+  const [infNfse] = notes;
+  const servico = findElement(infNfse, "Servico");
+  const valores = findElement(servico, "Valores");
+  const value = (name: string) => toNumber(elementText(valores, name) ?? elementText(findElement(infNfse, "ValoresNfse"), name));
+
+  const services = value("ValorServicos");
+  const discount = value("DescontoIncondicionado");
+  const amount = round(services - discount);
+  const description = elementText(servico, "Discriminacao") ?? "";
+
+  // ABRASF 1.x: PrestadorServico/TomadorServico; 2.x: Prestador/Tomador na declaração
+  const emitter = findElement(infNfse, "PrestadorServico") ?? findElement(infNfse, "Prestador");
+  const recipient = findElement(infNfse, "TomadorServico") ?? findElement(infNfse, "Tomador");
+
+  const taxes: Record<string, number> = {
+    iss: value("ValorIss"),
+    pis: value("ValorPis"),
+    cofins: value("ValorCofins"),
+    inss: value("ValorInss"),
+    ir: value("ValorIr"),
+    csll: value("ValorCsll"),
+  };
+  // ISS retido pelo tomador (IssRetido 1 = sim) reduz o valor líquido, não o total da nota
+  if (elementText(servico, "IssRetido") === "1" || elementText(findElement(infNfse, "InfDeclaracaoPrestacaoServico"), "IssRetido") === "1") {
+    taxes.issWithheld = taxes.iss;
+  }
+
+  return {
+    kind: "nfse",
+    number: elementText(infNfse, "Numero") ?? "",
+    series: null,
+    accessKey: null,
+    verificationCode: elementText(infNfse, "CodigoVerificacao") ?? null,
+    issueDate: elementText(infNfse, "DataEmissao")?.substring(0, 10) ?? "",
+    dueDate: null,
+    emitter: party(emitter, "RazaoSocial"),
+    recipient: party(recipient, "RazaoSocial"),
+    items: [{
+      code: elementText(servico, "ItemListaServico") ?? null,
+      description,
+      ncm: null,
+      cfop: null,
+      unit: null,
+      quantity: 1,
+      unitPrice: services,
+      grossAmount: services,
+      discount,
+      tax: 0,
+      total: amount,
+    }],
+    totals: { items: services, discount, freight: 0, insurance: 0, other: 0, amount },
+    taxes: Object.fromEntries(Object.entries(taxes).filter(([, tax]) => tax > 0)),
+  };
+}
+
+export function parseFiscalXml(data: Buffer): FiscalDocument {
+  let document: XmlElement;
+  try {
+    document = parseXml(decode(data));
+  } catch (error) {
+    if (error instanceof XmlParseError) throw new FiscalXmlError(`Invalid XML: ${error.message}`);
+    throw error;
+  }
+
+  const isNfe = document.name === "nfeProc" || document.name === "NFe" || Boolean(findElement(document, "infNFe"));
+  const parsed = isNfe ? parseNfe(document) : findElement(document, "InfNfse") ? parseNfse(document) : undefined;
+  if (!parsed) {
+    throw new FiscalXmlError(`Unsupported XML document <${document.name}>; expected an NF-e (nfeProc) or ABRASF NFS-e`);
+  }
+
+  const missing: string[] = [];
+  if (!parsed.number) missing.push("number");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(parsed.issueDate)) missing.push("issueDate");
+  if (!(parsed.totals.amount > 0)) missing.push("amount");
+  if (!parsed.recipient.name && !parsed.recipient.document) missing.push("recipient");
+  if (parsed.items.some(item => !item.description || !(item.quantity > 0))) missing.push("items");
+  if (missing.length > 0) {
+    throw new FiscalXmlError(`Fiscal XML is missing required fields: ${missing.join(", ")}`);
+  }
+
+  return parsed;
+}
+
+// Linhas da nota a partir do XML: IPI/ST entram como alíquota da linha e frete, seguro e
+// outras despesas como linhas próprias, para que o total calculado feche com o vNF
+export function buildInvoiceFromFiscalDocument(
+  fiscal: FiscalDocument,
+  options: { clientId: number; status: string },
+): InsertInvoice & { accessKey: string | null; fiscalDocument: FiscalDocument } {
+  const items: InvoiceItem[] = fiscal.items.map(item => {
+    // O unitário do XML pode ter até 10 casas; se não reproduzir o vProd, usa o valor da linha
+    const unitPrice = Math.round(item.quantity * item.unitPrice * 100) === Math.round(item.grossAmount * 100)
+      ? item.unitPrice
+      : item.grossAmount / item.quantity;
+    const net = item.grossAmount - item.discount;
+    return {
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit ?? undefined,
+      unitPrice,
+      discount: item.discount,
+      taxRate: net > 0 ? round((item.tax / net) * 100, 6) : 0,
+      ncm: item.ncm ?? undefined,
+      cfop: item.cfop ?? undefined,
+    };
+  });
+
+  const extras: [string, number][] = [
+    ["Frete", fiscal.totals.freight],
+    ["Seguro", fiscal.totals.insurance],
+    ["Outras despesas", fiscal.totals.other],
+  ];
+  for (const [description, value] of extras) {
+    if (value > 0) {
+      items.push({ description, quantity: 1, unitPrice: value, discount: 0, taxRate: 0 });
+    }
+  }
+
+  const label = fiscal.kind === "nfe" ? "NF-e" : "NFS-e";
+  return {
+    number: fiscal.number,
+    clientId: options.clientId,
+    issueDate: fiscal.issueDate,
+    dueDate: fiscal.dueDate,
+    paymentTerms: null,
+    status: options.status,
+    amount: fiscal.totals.amount.toFixed(2),
+    items,
+    notes: fiscal.kind === "nfse" ? fiscal.items[0].description : `${label} ${fiscal.number}${fiscal.series ? ` série ${fiscal.series}` : ""}`,
+    accessKey: fiscal.accessKey,
+    fiscalDocument: fiscal,
+  };
+}
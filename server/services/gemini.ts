@@ -1,135 +1,157 @@
-import * as fs from "fs";
-import { GoogleGenAI } from "@google/genai";
-
-const genAI = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
-
-export interface ExtractedInvoiceData {
-  clientName: string;
-  amount: number;
-  description: string;
-  issueDate: string;
-  items: {
-    description: string;
-    quantity: number;
-    unitPrice: number;
-    total: number;
-  }[];
+import { GoogleGenAI, Type, type Schema } from "@google/genai";
+import { z } from "zod";
+import { extractedInvoiceSchema } from "@shared/schema";
+import { ExtractionError, extractedFieldNames, type InvoiceExtraction, type InvoiceExtractor } from "./invoice-extractor";
+
+const GEMINI_MODEL = process.env.GEMINI_MODEL || "gemini-2.0-flash";
+
+let genAI: GoogleGenAI | undefined;
+
+function getClient(): GoogleGenAI {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new ExtractionError("GEMINI_API_KEY is not configured");
+  }
+  genAI ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  return genAI;
 }
 
-export async function analyzeInvoicePDF(pdfPath: string): Promise<ExtractedInvoiceData> {
-  try {
-    const pdfBytes = fs.readFileSync(pdfPath);
-    
-    const model = genAI.getGenerativeModel({ 
-      model: "gemini-2.0-flash-exp",
-      generationConfig: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: "object",
-          properties: {
-            clientName: { type: "string" },
-            amount: { type: "number" },
-            description: { type: "string" },
-            issueDate: { type: "string" },
-            dueDate: { type: "string" },
-            items: {
-              type: "array",
-              items: {
-                type: "object",
-                properties: {
-                  description: { type: "string" },
-                  quantity: { type: "number" },
-                  unitPrice: { type: "number" },
-                  total: { type: "number" }
-                },
-                required: ["description", "quantity", "unitPrice", "total"]
-              }
-            }
-          },
-          required: ["clientName", "amount", "description", "issueDate", "items"]
-        }
-      }
-    });
-    
-    const prompt = `
-Analise este PDF de nota fiscal/invoice e extraia as seguintes informações:
+const nullableString: Schema = { type: Type.STRING, nullable: true };
+const nullableNumber: Schema = { type: Type.NUMBER, nullable: true };
+
+const responseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    clientName: nullableString,
+    clientDocument: nullableString,
+    number: nullableString,
+    amount: nullableNumber,
+    description: nullableString,
+    issueDate: nullableString,
+    dueDate: nullableString,
+    items: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          description: { type: Type.STRING },
+          quantity: { type: Type.NUMBER },
+          unitPrice: { type: Type.NUMBER },
+          total: nullableNumber,
+        },
+        required: ["description", "quantity", "unitPrice"],
+      },
+    },
+    confidence: {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(extractedFieldNames.map(name => [name, { type: Type.NUMBER }])),
+      required: [...extractedFieldNames],
+    },
+  },
+  required: ["clientName", "clientDocument", "number", "amount", "description", "issueDate", "dueDate", "items", "confidence"],
+};
 
-1. Nome do cliente
-2. Valor total da nota
-3. Descrição dos serviços/produtos
-4. Data de emissão
-5. Data de vencimento
-6. Lista de itens com descrição, quantidade, preço unitário e total
+const prompt = `
+Analise este PDF de nota fiscal/invoice e extraia:
 
-Retorne os dados em formato JSON estruturado. Para datas, use formato ISO (YYYY-MM-DD).
-Para valores monetários, use números decimais sem símbolos de moeda.
+1. Nome do cliente (tomador/destinatário, não o emitente)
+2. CNPJ ou CPF do cliente
+3. Número da nota
+4. Valor total da nota
+5. Descrição dos serviços/produtos
+6. Data de emissão
+7. Data de vencimento
+8. Lista de itens com descrição, quantidade, preço unitário e total
 
-Se alguma informação não estiver disponível, use valores padrão apropriados:
-- clientName: "Cliente não identificado"
-- amount: 0
-- description: "Serviços diversos"
-- issueDate: data atual
+Datas no formato ISO (YYYY-MM-DD). CNPJ/CPF somente com dígitos. Valores monetários como números decimais, sem símbolo de moeda.
+Se uma informação não estiver no documento, use null. Não invente valores.
 
-- items: array vazio se não houver itens específicos
+Em "confidence", informe para cada campo um número de 0 a 1 indicando a certeza da leitura
+(0 quando o campo é null).
 `;
 
-    const result = await model.generateContent([
-      {
-        inlineData: {
-          data: pdfBytes.toString("base64"),
-          mimeType: "application/pdf"
-        }
+// Resposta do modelo: campos podem vir fora do formato e são descartados individualmente
+const geminiResponseSchema = z.object({
+  confidence: z.record(z.number()).default({}),
+}).passthrough();
+
+const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+function clampConfidence(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+}
+
+export function parseGeminiResponse(text: string | undefined): InvoiceExtraction {
+  if (!text) {
+    throw new ExtractionError("Empty response from Gemini");
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ExtractionError("Gemini returned invalid JSON", text);
+  }
+
+  const parsed = geminiResponseSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new ExtractionError("Gemini response does not match the expected format", raw);
+  }
+
+  const data = parsed.data as Record<string, unknown>;
+  const confidence: Record<string, number> = {};
+  const candidate = {
+    clientName: typeof data.clientName === "string" && data.clientName.trim() ? data.clientName.trim() : null,
+    clientDocument: typeof data.clientDocument === "string" && /^(\d{11}|\d{14})$/.test(data.clientDocument.replace(/\D/g, ""))
+      ? data.clientDocument.replace(/\D/g, "")
+      : null,
+    number: typeof data.number === "string" && data.number.trim() ? data.number.trim() : null,
+    amount: typeof data.amount === "number" && data.amount > 0 ? data.amount : null,
+    description: typeof data.description === "string" && data.description.trim() ? data.description.trim() : null,
+    issueDate: typeof data.issueDate === "string" && isoDate.test(data.issueDate) ? data.issueDate : null,
+    dueDate: typeof data.dueDate === "string" && isoDate.test(data.dueDate) ? data.dueDate : null,
+    items: Array.isArray(data.items) ? data.items : [],
+  };
+
+  const fields = extractedInvoiceSchema.safeParse(candidate);
+  if (!fields.success) {
+    throw new ExtractionError("Gemini returned invalid line items", raw);
+  }
+
+  for (const name of extractedFieldNames) {
+    const value = fields.data[name];
+    const empty = value === null || (Array.isArray(value) && value.length === 0);
+    confidence[name] = empty ? 0 : clampConfidence(parsed.data.confidence[name]);
+  }
+
+  return { fields: fields.data, confidence, raw };
+}
+
+export class GeminiInvoiceExtractor implements InvoiceExtractor {
+  readonly name = `gemini:${GEMINI_MODEL}`;
+
+  async extract(pdf: Buffer): Promise<InvoiceExtraction> {
+    const response = await getClient().models.generateContent({
+      model: GEMINI_MODEL,
+      contents: [{
+        role: "user",
+        parts: [
+          { inlineData: { data: pdf.toString("base64"), mimeType: "application/pdf" } },
+          { text: prompt },
+        ],
+      }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema,
+        temperature: 0,
       },
-      prompt
-    ]);
-    
-    const response = await result.response;
-    const text = response.text();
-    
-    if (!text) {
-      throw new Error("Empty response from Gemini");
-    }
-    
-    const extractedData: ExtractedInvoiceData = JSON.parse(text);
-    
-    // Validate and clean data
-    if (!extractedData.clientName) {
-      extractedData.clientName = "Cliente não identificado";
-    }
-    
-    if (!extractedData.amount || extractedData.amount <= 0) {
-      extractedData.amount = 0;
-    }
-    
-    if (!extractedData.description) {
-      extractedData.description = "Serviços diversos";
-    }
-    
-    if (!extractedData.issueDate) {
-      extractedData.issueDate = new Date().toISOString().split('T')[0];
-    }
-    
-    if (!extractedData.dueDate) {
-      const dueDate = new Date();
-      dueDate.setDate(dueDate.getDate() + 30);
-      extractedData.dueDate = dueDate.toISOString().split('T')[0];
-    }
-    
-    if (!extractedData.items) {
-      extractedData.items = [];
-    }
-    
-    return extractedData;
-  } catch (error) {
-    console.error("Error analyzing PDF:", error);
-    throw new Error(`Failed to analyze PDF: ${error}`);
+    });
+
+    return parseGeminiResponse(response.text);
   }
 }
 
 export async function generateInvoiceDescription(items: any[]): Promise<string> {
   try {
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash-exp" });
-    
     const prompt = `
 Com base nos seguintes itens de uma nota fiscal, gere uma descrição concisa e profissional:
 
@@ -139,12 +161,11 @@ ${items.map(item => `- ${item.description} (Qtd: ${item.quantity}, Preço: R$ ${
 Gere uma descrição em português que resuma os serviços/produtos de forma profissional, adequada para uma nota fiscal.
 Máximo 200 caracteres.
 `;
-    
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const description = response.text();
-    
-    return description.trim();
+
+    const response = await getClient().models.generateContent({ model: GEMINI_MODEL, contents: prompt });
+    const description = response.text;
+
+    return description?.trim() || "Serviços diversos";
   } catch (error) {
     console.error("Error generating description:", error);
     return "Serviços diversos";
@@ -0,0 +1,103 @@
+import type { ExtractedInvoice } from "@shared/schema";
+
+export interface InvoiceExtraction {
+  fields: ExtractedInvoice;
+  // Confiança de 0 a 1 por campo; campos ausentes ficam com 0
+  confidence: Record<string, number>;
+  // Resposta original do extrator, guardada no import_job para auditoria
+  raw: unknown;
+  // Extrator que produziu o resultado, quando difere do ativo (ex.: fallback)
+  extractor?: string;
+}
+
+// Extrator de dados de notas a partir do PDF; implementações: regras locais, Gemini (rede) e fakes para testes
+export interface InvoiceExtractor {
+  readonly name: string;
+  extract(pdf: Buffer): Promise<InvoiceExtraction>;
+}
+
+export class ExtractionError extends Error {
+  constructor(message: string, public raw?: unknown) {
+    super(message);
+  }
+}
+
+export const extractedFieldNames = ["clientName", "clientDocument", "number", "amount", "description", "issueDate", "dueDate", "items"] as const;
+
+// Campos sem os quais a nota não pode ser gerada; decidem se a extração é confiável
+export const requiredExtractedFields = ["clientName", "number", "amount", "issueDate"] as const;
+
+export function lowestConfidence(extraction: InvoiceExtraction): number {
+  return Math.min(...requiredExtractedFields.map(name => extraction.confidence[name] ?? 0));
+}
+
+export function emptyExtraction(): ExtractedInvoice {
+  return {
+    clientName: null,
+    clientDocument: null,
+    number: null,
+    amount: null,
+    description: null,
+    issueDate: null,
+    dueDate: null,
+    items: [],
+  };
+}
+
+// Extrator sem rede que devolve sempre o mesmo resultado (ou falha), para testes
+export class FakeInvoiceExtractor implements InvoiceExtractor {
+  readonly name = "fake";
+
+  constructor(private result: Partial<InvoiceExtraction> | Error = {}) {}
+
+  async extract(): Promise<InvoiceExtraction> {
+    if (this.result instanceof Error) throw this.result;
+    const fields = { ...emptyExtraction(), ...this.result.fields };
+    return {
+      fields,
+      confidence: this.result.confidence ?? Object.fromEntries(extractedFieldNames.map(name => [name, 1])),
+      raw: this.result.raw ?? fields,
+    };
+  }
+}
+
+// Tenta o extrator principal (barato, local) e só recorre ao secundário quando algum
+// campo obrigatório fica abaixo do limiar. Se o secundário falhar, o resultado parcial
+// do principal segue para a revisão manual em vez de falhar o job.
+export class FallbackInvoiceExtractor implements InvoiceExtractor {
+  readonly name: string;
+
+  constructor(private primary: InvoiceExtractor, private fallback: InvoiceExtractor, private threshold: number) {
+    this.name = `${primary.name}>${fallback.name}`;
+  }
+
+  async extract(pdf: Buffer): Promise<InvoiceExtraction> {
+    let first: InvoiceExtraction | undefined;
+    let primaryError: string | undefined;
+    try {
+      first = await this.primary.extract(pdf);
+      if (lowestConfidence(first) >= this.threshold) {
+        return { ...first, extractor: first.extractor ?? this.primary.name };
+      }
+    } catch (error) {
+      primaryError = error instanceof Error ? error.message : String(error);
+    }
+
+    try {
+      const second = await this.fallback.extract(pdf);
+      return {
+        ...second,
+        raw: { [this.primary.name]: first?.raw ?? { error: primaryError }, [this.fallback.name]: second.raw },
+        extractor: second.extractor ?? this.fallback.name,
+      };
+    } catch (error) {
+      if (!first) throw error;
+      const fallbackError = error instanceof Error ? error.message : String(error);
+      return {
+        ...first,
+        raw: { [this.primary.name]: first.raw, [this.fallback.name]: { error: fallbackError } },
+        extractor: first.extractor ?? this.primary.name,
+      };
+    }
+  }
+}
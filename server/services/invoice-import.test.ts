@@ -0,0 +1,124 @@
+import { afterEach, before, beforeEach, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import { insertInvoiceSchema, type Client, type ImportJob } from "@shared/schema";
+import { ExtractionError, FakeInvoiceExtractor } from "./invoice-extractor";
+
+type Storage = typeof import("../storage")["storage"];
+type InvoiceImport = typeof import("./invoice-import");
+
+let storage: Storage;
+let imports: InvoiceImport;
+
+// O storage só abre conexão na primeira consulta; aqui todas as chamadas usadas são simuladas
+before(async () => {
+  process.env.DATABASE_URL ??= "postgres://test@127.0.0.1:1/test";
+  ({ storage } = await import("../storage"));
+  imports = await import("./invoice-import");
+});
+
+const client: Client = {
+  id: 7,
+  name: "Malharia Exemplo Ltda",
+  subName: null,
+  logoUrl: null,
+  logoAttachmentId: null,
+  paymentTerms: "30",
+  document: "11222333000181",
+  stateRegistration: null,
+  billingAddress: null,
+  deliveryAddress: null,
+  contacts: [],
+  deletedAt: null,
+  deletedBy: null,
+};
+
+const pendingJob: ImportJob = {
+  id: 1,
+  status: "pending",
+  source: "pdf",
+  extractor: null,
+  fileName: "nota.pdf",
+  attachmentId: 3,
+  rawExtraction: null,
+  fields: null,
+  confidence: null,
+  matchedClientId: null,
+  matchScore: null,
+  error: null,
+  invoiceId: null,
+  createdBy: 1,
+  reviewedBy: null,
+  createdAt: null,
+  updatedAt: null,
+};
+
+let job: ImportJob;
+
+beforeEach(() => {
+  job = { ...pendingJob };
+  mock.method(storage, "getClients", async () => [client]);
+  mock.method(storage, "updateImportJob", async (id: number, changes: Partial<ImportJob>) => {
+    assert.equal(id, job.id);
+    job = { ...job, ...changes };
+    return job;
+  });
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  imports.setInvoiceExtractor(undefined);
+});
+
+test("extracts, reviews and commits an imported PDF", async () => {
+  imports.setInvoiceExtractor(new FakeInvoiceExtractor({
+    fields: {
+      clientName: "MALHARIA EXEMPLO",
+      clientDocument: "11222333000181",
+      number: null,
+      amount: 1500,
+      description: "Camisetas",
+      issueDate: "2024-03-15",
+      dueDate: "2024-04-14",
+      items: [{ description: "Camiseta estampada", quantity: 100, unitPrice: 15, total: 1500 }],
+    },
+    confidence: { clientName: 0.9, clientDocument: 0.95, number: 0, amount: 0.95, issueDate: 0.95 },
+  }));
+
+  const extracted = await imports.runImportExtraction(job, Buffer.from("%PDF-1.4"));
+  assert.equal(extracted.status, "extracted");
+  assert.equal(extracted.extractor, "fake");
+  assert.equal(extracted.matchedClientId, client.id);
+  assert.equal(extracted.matchScore, 1);
+
+  // Sem número extraído a nota ainda não pode ser gerada
+  assert.throws(() => imports.buildInvoiceFromImport(extracted, { status: "pending" }), (error: unknown) =>
+    error instanceof imports.ImportCommitError && error.missingFields.join() === "number");
+
+  const reviewed = await imports.reviewImportJob(extracted, { fields: { number: "12345" } }, 2);
+  assert.equal(reviewed.status, "reviewed");
+  assert.equal(reviewed.reviewedBy, 2);
+  assert.equal(reviewed.fields?.number, "12345");
+  assert.equal(reviewed.fields?.amount, 1500);
+  assert.equal(reviewed.confidence?.number, 1);
+  assert.equal(reviewed.confidence?.clientName, 0.9);
+
+  const invoice = insertInvoiceSchema.parse(imports.buildInvoiceFromImport(reviewed, { status: "pending" }));
+  assert.equal(invoice.number, "12345");
+  assert.equal(invoice.clientId, client.id);
+  assert.equal(invoice.amount, "1500.00");
+  assert.equal(invoice.issueDate, "2024-03-15");
+  assert.equal(invoice.dueDate, "2024-04-14");
+  assert.equal(invoice.items?.length, 1);
+});
+
+test("records extraction failures on the import job", async () => {
+  imports.setInvoiceExtractor(new FakeInvoiceExtractor(new ExtractionError("PDF has no text layer", { pages: 1 })));
+  mock.method(console, "error", () => {});
+
+  const failed = await imports.runImportExtraction(job, Buffer.from("%PDF-1.4"));
+  assert.equal(failed.status, "failed");
+  assert.equal(failed.extractor, "fake");
+  assert.equal(failed.error, "PDF has no text layer");
+  assert.deepEqual(failed.rawExtraction, { pages: 1 });
+  assert.equal(failed.fields, null);
+});
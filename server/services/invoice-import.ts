@@ -0,0 +1,131 @@
+import type { Client, ExtractedInvoice, ImportJob, ImportJobReview, InsertInvoice } from "@shared/schema";
+import { storage } from "../storage";
+import { ExtractionError, FallbackInvoiceExtractor, emptyExtraction, type InvoiceExtractor } from "./invoice-extractor";
+import { GeminiInvoiceExtractor } from "./gemini";
+import { RuleBasedInvoiceExtractor } from "./rule-based-extractor";
+import { CLIENT_MATCH_THRESHOLD, findClientMatches, type ClientMatch } from "./client-matching";
+
+// Abaixo disso (em algum campo obrigatório) o PDF é reenviado ao modelo
+const RULES_CONFIDENCE_THRESHOLD = parseFloat(process.env.RULES_CONFIDENCE_THRESHOLD || "0.8");
+
+let extractor: InvoiceExtractor | undefined;
+
+// Padrão: regras locais primeiro (DANFE/NFS-e com texto), Gemini só quando a leitura é incerta
+export function getInvoiceExtractor(): InvoiceExtractor {
+  extractor ??= new FallbackInvoiceExtractor(
+    new RuleBasedInvoiceExtractor(),
+    new GeminiInvoiceExtractor(),
+    RULES_CONFIDENCE_THRESHOLD,
+  );
+  return extractor;
+}
+
+// Troca o extrator ativo (ex.: FakeInvoiceExtractor em testes, sem acesso à rede)
+export function setInvoiceExtractor(next: InvoiceExtractor | undefined): void {
+  extractor = next;
+}
+
+export class ImportCommitError extends Error {
+  constructor(public missingFields: string[]) {
+    super(`Import job is missing required fields: ${missingFields.join(", ")}`);
+  }
+}
+
+// Roda a extração e a sugestão de cliente; falhas ficam registradas no job (status failed)
+export async function runImportExtraction(job: ImportJob, pdf: Buffer): Promise<ImportJob> {
+  const activeExtractor = getInvoiceExtractor();
+
+  try {
+    const extraction = await activeExtractor.extract(pdf);
+
+    let matchedClientId: number | null = null;
+    let matchScore: number | null = null;
+    const [best] = getClientCandidates(extraction.fields, await storage.getClients());
+    if (best && best.score >= CLIENT_MATCH_THRESHOLD) {
+      matchedClientId = best.client.id;
+      matchScore = best.score;
+    }
+
+    return (await storage.updateImportJob(job.id, {
+      status: "extracted",
+      extractor: extraction.extractor ?? activeExtractor.name,
+      rawExtraction: extraction.raw,
+      fields: extraction.fields,
+      confidence: extraction.confidence,
+      matchedClientId,
+      matchScore,
+      error: null,
+    }))!;
+  } catch (error) {
+    console.error(`Import job ${job.id} extraction failed:`, error);
+    return (await storage.updateImportJob(job.id, {
+      status: "failed",
+      extractor: activeExtractor.name,
+      rawExtraction: error instanceof ExtractionError ? error.raw ?? null : null,
+      error: error instanceof Error ? error.message : String(error),
+    }))!;
+  }
+}
+
+// Campos corrigidos na revisão passam a ter confiança total
+export async function reviewImportJob(job: ImportJob, review: ImportJobReview, reviewedBy: number): Promise<ImportJob> {
+  const { fields, clientId } = review;
+  const confidence = { ...job.confidence };
+  for (const name of Object.keys(fields ?? {})) {
+    confidence[name] = 1;
+  }
+
+  return (await storage.updateImportJob(job.id, {
+    status: "reviewed",
+    fields: { ...emptyExtraction(), ...job.fields, ...fields },
+    confidence,
+    ...(clientId !== undefined ? { matchedClientId: clientId, matchScore: null } : {}),
+    reviewedBy,
+    error: null,
+  }))!;
+}
+
+// CNPJ/CPF igual ao extraído identifica o cliente com certeza; senão vale a similaridade do nome
+export function getClientCandidates(fields: ExtractedInvoice | null, clients: Client[]): ClientMatch[] {
+  const byDocument = fields?.clientDocument ? clients.find(client => client.document === fields.clientDocument) : undefined;
+  const byName = fields?.clientName ? findClientMatches(fields.clientName, clients) : [];
+  if (!byDocument) return byName;
+  return [{ client: byDocument, score: 1 }, ...byName.filter(match => match.client.id !== byDocument.id)].slice(0, 3);
+}
+
+export function buildInvoiceFromImport(
+  job: ImportJob,
+  options: { number?: string; paymentTerms?: string; status: string },
+): InsertInvoice {
+  const fields = job.fields;
+  const number = options.number ?? fields?.number ?? null;
+  const items = fields?.items ?? [];
+
+  const missing: string[] = [];
+  if (!job.matchedClientId) missing.push("clientId");
+  if (!number) missing.push("number");
+  if (!fields?.issueDate) missing.push("issueDate");
+  if (!fields?.amount && items.length === 0) missing.push("amount");
+  if (missing.length > 0) {
+    throw new ImportCommitError(missing);
+  }
+
+  return {
+    number: number!,
+    clientId: job.matchedClientId,
+    issueDate: fields!.issueDate!,
+    // Com prazo informado o vencimento é recalculado a partir dele
+    dueDate: options.paymentTerms ? null : fields!.dueDate,
+    paymentTerms: options.paymentTerms ?? null,
+    status: options.status,
+    amount: fields!.amount !== null ? fields!.amount.toFixed(2) : undefined,
+    items: items.map(item => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      discount: 0,
+      taxRate: 0,
+    })),
+    notes: fields!.description,
+  };
+}
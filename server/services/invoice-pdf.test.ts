@@ -0,0 +1,65 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { InvoiceWithClient } from "@shared/schema";
+import { renderInvoicePdf } from "./invoice-pdf";
+
+const invoice: InvoiceWithClient = {
+  id: 42,
+  number: "2024-0042",
+  clientId: 7,
+  amount: "1500.00",
+  subtotal: "1500.00",
+  discountTotal: "0.00",
+  taxTotal: "0.00",
+  balanceDue: "500.00",
+  issueDate: "2024-03-15 00:00:00",
+  dueDate: "2024-04-14 00:00:00",
+  paymentTerms: "30",
+  status: "partial",
+  items: [{ description: "Camiseta estampada", quantity: 100, unit: "un", unitPrice: 15, discount: 0, taxRate: 0, total: 1500 }],
+  notes: "Entrega em duas remessas",
+  quoteId: null,
+  accessKey: null,
+  fiscalDocument: null,
+  deletedAt: null,
+  deletedBy: null,
+  client: {
+    id: 7,
+    name: "Malharia Exemplo Ltda",
+    subName: null,
+    logoUrl: null,
+    logoAttachmentId: null,
+    paymentTerms: "30",
+    document: "11222333000181",
+    stateRegistration: "ISENTO",
+    billingAddress: { street: "Rua das Flores", number: "100", city: "São Paulo", state: "SP", postalCode: "01000-000" },
+    deliveryAddress: null,
+    contacts: [],
+    deletedAt: null,
+    deletedBy: null,
+  },
+};
+
+function renderIn(timeZone: string): Buffer {
+  const previous = process.env.TZ;
+  process.env.TZ = timeZone;
+  try {
+    return renderInvoicePdf({ invoice });
+  } finally {
+    process.env.TZ = previous;
+  }
+}
+
+test("renders the same bytes for the same invoice", async () => {
+  const first = renderInvoicePdf({ invoice });
+  await new Promise(resolve => setTimeout(resolve, 1100));
+  const second = renderInvoicePdf({ invoice });
+  assert.ok(first.equals(second));
+});
+
+test("does not depend on the server time zone", () => {
+  const utc = renderIn("UTC");
+  assert.ok(utc.equals(renderIn("America/Sao_Paulo")));
+  assert.ok(utc.equals(renderIn("Asia/Tokyo")));
+  assert.ok(utc.toString("latin1").includes("/CreationDate (D:20240315000000+00'00')"));
+});
@@ -0,0 +1,277 @@
+import { jsPDF } from "jspdf";
+import { createHash } from "crypto";
+import { format, parseISO } from "date-fns";
+import type { Address, InvoiceWithClient } from "@shared/schema";
+import { formatDocument } from "@shared/documents";
+import { parseInvoiceItems } from "./invoice-totals";
+
+// A4 em milímetros
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM_LIMIT = PAGE_HEIGHT - 20;
+const BRAND_COLOR: [number, number, number] = [30, 64, 175];
+const MUTED_COLOR: [number, number, number] = [100, 116, 139];
+
+const statusLabels: Record<string, string> = {
+  draft: "Rascunho",
+  pending: "Pendente",
+  partial: "Parcialmente paga",
+  paid: "Paga",
+  overdue: "Vencida",
+  cancelled: "Cancelada",
+};
+
+export interface InvoicePdfImage {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface InvoicePdfOptions {
+  invoice: InvoiceWithClient;
+  logo?: InvoicePdfImage | null;
+  // Cobrança PIX do saldo em aberto: código copia-e-cola e QR code em data URL PNG
+  pix?: { pixCode: string; qrCode: string } | null;
+  companyName?: string;
+}
+
+const currency = new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" });
+
+function formatMoney(value: string | number | null | undefined): string {
+  return currency.format(typeof value === "number" ? value : parseFloat(value || "0"));
+}
+
+function formatDate(value: string | null | undefined): string {
+  return value ? format(parseISO(value.substring(0, 10)), "dd/MM/yyyy") : "-";
+}
+
+function formatAddress(address: Address): string {
+  const street = [address.street, address.number, address.complement].filter(Boolean).join(", ");
+  return [street, address.district, `${address.city}/${address.state}`, `CEP ${address.postalCode}`].filter(Boolean).join(" - ");
+}
+
+function imageFormat(mimeType: string): "PNG" | "JPEG" | null {
+  if (mimeType === "image/png") return "PNG";
+  if (mimeType === "image/jpeg") return "JPEG";
+  return null;
+}
+
+// Tudo que entra no arquivo deriva da nota: sem data de geração nem ID aleatório,
+// a mesma nota sempre produz os mesmos bytes
+export function renderInvoicePdf(options: InvoicePdfOptions): Buffer {
+  const { invoice, logo, pix } = options;
+  const companyName = options.companyName ?? "Delta Silk Print";
+
+  const doc = new jsPDF({ unit: "mm", format: "a4", compress: true });
+  // Data de criação em UTC: um Date seria gravado no fuso do servidor
+  doc.setCreationDate(`D:${invoice.issueDate.substring(0, 10).replace(/-/g, "")}000000+00'00'`);
+  doc.setFileId(createHash("md5").update(`invoice:${invoice.id}:${invoice.number}`).digest("hex"));
+  doc.setProperties({ title: `Nota ${invoice.number}`, subject: companyName, creator: companyName });
+
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > BOTTOM_LIMIT) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  // Cabeçalho: empresa à esquerda, logo do cliente à direita
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(18);
+  doc.setTextColor(...BRAND_COLOR);
+  doc.text(companyName, MARGIN, y + 7);
+
+  const logoFormat = logo ? imageFormat(logo.mimeType) : null;
+  if (logo && logoFormat) {
+    const properties = doc.getImageProperties(logo.data);
+    const height = 20;
+    const width = Math.min(50, (properties.width / properties.height) * height);
+    doc.addImage(logo.data, logoFormat, PAGE_WIDTH - MARGIN - width, y, width, height, `logo-${invoice.clientId}`);
+  }
+
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text("Fatura / Nota de serviço", MARGIN, y + 13);
+  y += 26;
+
+  doc.setDrawColor(...BRAND_COLOR);
+  doc.setLineWidth(0.6);
+  doc.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 8;
+
+  // Dados da nota e do cliente
+  doc.setTextColor(0, 0, 0);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(13);
+  doc.text(`Nota nº ${invoice.number}`, MARGIN, y);
+  doc.setFontSize(10);
+  doc.text(statusLabels[invoice.status ?? "pending"] ?? invoice.status ?? "", PAGE_WIDTH - MARGIN, y, { align: "right" });
+  y += 7;
+
+  const details: [string, string][] = [
+    ["Cliente", invoice.client ? [invoice.client.name, invoice.client.subName].filter(Boolean).join(" - ") : "-"],
+  ];
+  if (invoice.client?.document) {
+    details.push([invoice.client.document.length === 14 ? "CNPJ" : "CPF", formatDocument(invoice.client.document)]);
+  }
+  if (invoice.client?.billingAddress) {
+    details.push(["Endereço", formatAddress(invoice.client.billingAddress)]);
+  }
+  details.push(
+    ["Emissão", formatDate(invoice.issueDate)],
+    ["Vencimento", formatDate(invoice.dueDate)],
+    ["Condições", invoice.paymentTerms ? `${invoice.paymentTerms} dias` : "-"],
+  );
+  doc.setFontSize(10);
+  for (const [label, value] of details) {
+    doc.setFont("helvetica", "bold");
+    doc.text(`${label}:`, MARGIN, y);
+    doc.setFont("helvetica", "normal");
+    const lines: string[] = doc.splitTextToSize(value, CONTENT_WIDTH - 28);
+    doc.text(lines, MARGIN + 28, y);
+    y += 5.5 * lines.length;
+  }
+  y += 4;
+
+  // Itens; notas antigas sem itens estruturados saem com uma linha única
+  const columns = [
+    { title: "Descrição", x: MARGIN + 2, align: "left" as const },
+    { title: "Qtd.", x: MARGIN + 98, align: "right" as const },
+    { title: "Un.", x: MARGIN + 102, align: "left" as const },
+    { title: "Preço unit.", x: MARGIN + 135, align: "right" as const },
+    { title: "Desc.", x: MARGIN + 155, align: "right" as const },
+    { title: "Total", x: PAGE_WIDTH - MARGIN - 2, align: "right" as const },
+  ];
+
+  const drawTableHeader = () => {
+    doc.setFillColor(...BRAND_COLOR);
+    doc.rect(MARGIN, y - 4.5, CONTENT_WIDTH, 7, "F");
+    doc.setTextColor(255, 255, 255);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(9);
+    for (const column of columns) {
+      doc.text(column.title, column.x, y, { align: column.align });
+    }
+    doc.setTextColor(0, 0, 0);
+    doc.setFont("helvetica", "normal");
+    y += 7;
+  };
+
+  const items = parseInvoiceItems(invoice.items) ?? [];
+  const rows = items.length > 0
+    ? items.map(item => ({
+        description: item.description ?? "",
+        quantity: String(item.quantity),
+        unit: item.unit ?? "un",
+        unitPrice: formatMoney(item.unitPrice),
+        discount: item.discount ? formatMoney(item.discount) : "-",
+        total: formatMoney(item.total ?? item.quantity * (item.unitPrice ?? 0) - item.discount),
+      }))
+    : [{
+        description: invoice.notes || `Serviços referentes à nota ${invoice.number}`,
+        quantity: "1",
+        unit: "un",
+        unitPrice: formatMoney(invoice.amount),
+        discount: "-",
+        total: formatMoney(invoice.amount),
+      }];
+
+  drawTableHeader();
+  doc.setFontSize(9);
+  rows.forEach((row, index) => {
+    const descriptionLines: string[] = doc.splitTextToSize(row.description, 88);
+    const rowHeight = Math.max(1, descriptionLines.length) * 4.5 + 2;
+    if (y + rowHeight > BOTTOM_LIMIT) {
+      doc.addPage();
+      y = MARGIN + 5;
+      drawTableHeader();
+      doc.setFontSize(9);
+    }
+    if (index % 2 === 1) {
+      doc.setFillColor(241, 245, 249);
+      doc.rect(MARGIN, y - 4, CONTENT_WIDTH, rowHeight, "F");
+    }
+    doc.text(descriptionLines, columns[0].x, y);
+    doc.text(row.quantity, columns[1].x, y, { align: "right" });
+    doc.text(row.unit, columns[2].x, y);
+    doc.text(row.unitPrice, columns[3].x, y, { align: "right" });
+    doc.text(row.discount, columns[4].x, y, { align: "right" });
+    doc.text(row.total, columns[5].x, y, { align: "right" });
+    y += rowHeight;
+  });
+  y += 4;
+
+  // Totais
+  const paid = parseFloat(invoice.amount) - parseFloat(invoice.balanceDue);
+  const totals: [string, string, boolean][] = [
+    ["Subtotal", formatMoney(invoice.subtotal ?? invoice.amount), false],
+    ["Descontos", `- ${formatMoney(invoice.discountTotal)}`, false],
+    ["Impostos", formatMoney(invoice.taxTotal), false],
+    ["Total", formatMoney(invoice.amount), true],
+    ["Pago", formatMoney(paid), false],
+    ["Saldo devedor", formatMoney(invoice.balanceDue), true],
+  ];
+  ensureSpace(totals.length * 6 + 4);
+  doc.setFontSize(10);
+  for (const [label, value, strong] of totals) {
+    doc.setFont("helvetica", strong ? "bold" : "normal");
+    doc.text(label, PAGE_WIDTH - MARGIN - 60, y);
+    doc.text(value, PAGE_WIDTH - MARGIN - 2, y, { align: "right" });
+    y += 6;
+  }
+  y += 4;
+
+  // Pagamento via PIX do saldo em aberto
+  if (pix) {
+    const qrSize = 42;
+    const codeLines: string[] = doc.setFont("courier", "normal").setFontSize(8).splitTextToSize(pix.pixCode, CONTENT_WIDTH - qrSize - 8);
+    ensureSpace(Math.max(qrSize, codeLines.length * 3.5 + 16) + 10);
+
+    doc.setDrawColor(...BRAND_COLOR);
+    doc.setLineWidth(0.3);
+    doc.roundedRect(MARGIN, y, CONTENT_WIDTH, qrSize + 8, 2, 2, "S");
+    doc.addImage(pix.qrCode, "PNG", MARGIN + 4, y + 4, qrSize, qrSize, `pix-${invoice.id}`);
+
+    const textX = MARGIN + qrSize + 8;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(11);
+    doc.setTextColor(...BRAND_COLOR);
+    doc.text(`Pague com PIX: ${formatMoney(invoice.balanceDue)}`, textX, y + 9);
+    doc.setTextColor(0, 0, 0);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    doc.text("Escaneie o QR code ou use o código copia e cola:", textX, y + 15);
+    doc.setFont("courier", "normal");
+    doc.setFontSize(8);
+    doc.text(codeLines, textX, y + 21);
+    y += qrSize + 14;
+  }
+
+  if (invoice.notes && items.length > 0) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(9);
+    const noteLines: string[] = doc.splitTextToSize(invoice.notes, CONTENT_WIDTH);
+    ensureSpace(noteLines.length * 4.5 + 6);
+    doc.setFont("helvetica", "bold");
+    doc.text("Observações", MARGIN, y);
+    doc.setFont("helvetica", "normal");
+    doc.text(noteLines, MARGIN, y + 5);
+  }
+
+  // Rodapé com paginação
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text(`${companyName} - Nota ${invoice.number}`, MARGIN, PAGE_HEIGHT - 10);
+    doc.text(`Página ${page} de ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - 10, { align: "right" });
+  }
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -0,0 +1,106 @@
+import { invoiceItemSchema, type InvoiceItem } from "@shared/schema";
+
+// Diferença tolerada entre o total enviado e o calculado (arredondamento)
+const TOTAL_TOLERANCE_CENTS = 1;
+
+export interface InvoiceTotals {
+  items: InvoiceItem[];
+  subtotal: string;
+  discountTotal: string;
+  taxTotal: string;
+  amount: string;
+}
+
+export class InvoiceTotalsError extends Error {
+  constructor(message: string, public computedAmount?: string, public submittedAmount?: string) {
+    super(message);
+  }
+}
+
+function toCents(value: number): number {
+  return Math.round(value * 100);
+}
+
+function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+// Cada linha é arredondada em centavos antes da soma, como na nota impressa
+export function calculateInvoiceTotals(items: InvoiceItem[]): InvoiceTotals {
+  let subtotalCents = 0;
+  let discountCents = 0;
+  let taxCents = 0;
+
+  const pricedItems = items.map((item, index) => {
+    if (item.unitPrice === undefined || item.description === undefined) {
+      throw new InvoiceTotalsError(`Item ${index + 1}: description and unit price are required`);
+    }
+
+    const grossCents = toCents(item.quantity * item.unitPrice);
+    const lineDiscountCents = toCents(item.discount);
+    if (lineDiscountCents > grossCents) {
+      throw new InvoiceTotalsError(`Item ${index + 1}: discount exceeds the line value`);
+    }
+
+    const netCents = grossCents - lineDiscountCents;
+    const lineTaxCents = Math.round(netCents * item.taxRate / 100);
+
+    subtotalCents += grossCents;
+    discountCents += lineDiscountCents;
+    taxCents += lineTaxCents;
+
+    return { ...item, unit: item.unit ?? "un", total: (netCents + lineTaxCents) / 100 };
+  });
+
+  return {
+    items: pricedItems,
+    subtotal: fromCents(subtotalCents),
+    discountTotal: fromCents(discountCents),
+    taxTotal: fromCents(taxCents),
+    amount: fromCents(subtotalCents - discountCents + taxCents),
+  };
+}
+
+// Itens antigos (importados antes da validação) podem não seguir o schema atual
+export function parseInvoiceItems(items: unknown): InvoiceItem[] | undefined {
+  const parsed = invoiceItemSchema.array().safeParse(items ?? []);
+  return parsed.success ? parsed.data : undefined;
+}
+
+function hasAmount(amount: string | null | undefined): amount is string {
+  return amount !== undefined && amount !== null && amount !== "";
+}
+
+function parseAmount(amount: string): number {
+  const value = parseFloat(amount);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new InvoiceTotalsError(`Invalid amount: ${amount}`);
+  }
+  return value;
+}
+
+// Com itens, os totais vêm deles e um amount enviado que não confira é rejeitado;
+// sem itens (notas antigas ou importadas), o amount informado é o próprio total
+export function resolveInvoiceTotals(items: InvoiceItem[], submittedAmount?: string | null): InvoiceTotals {
+  if (items.length === 0) {
+    if (!hasAmount(submittedAmount)) {
+      throw new InvoiceTotalsError("Amount is required when the invoice has no items");
+    }
+    const amount = fromCents(toCents(parseAmount(submittedAmount)));
+    return { items, subtotal: amount, discountTotal: "0.00", taxTotal: "0.00", amount };
+  }
+
+  const totals = calculateInvoiceTotals(items);
+  if (hasAmount(submittedAmount)) {
+    const difference = Math.abs(toCents(parseAmount(submittedAmount)) - toCents(parseFloat(totals.amount)));
+    if (difference > TOTAL_TOLERANCE_CENTS) {
+      throw new InvoiceTotalsError(
+        `Submitted amount ${submittedAmount} does not match the items total ${totals.amount}`,
+        totals.amount,
+        submittedAmount,
+      );
+    }
+  }
+
+  return totals;
+}
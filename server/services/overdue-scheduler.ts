@@ -0,0 +1,28 @@
+import { storage } from "../storage";
+import { log } from "../vite";
+
+const OVERDUE_CHECK_INTERVAL_MS = 60 * 60 * 1000; // 1 hora
+
+async function runOverdueCheck() {
+  try {
+    const updated = await storage.markOverdueInvoices();
+    if (updated > 0) {
+      log(`marked ${updated} invoice(s) as overdue`, "overdue");
+    }
+
+    const expired = await storage.markExpiredQuotes();
+    if (expired > 0) {
+      log(`marked ${expired} quote(s) as expired`, "overdue");
+    }
+  } catch (error) {
+    console.error("Overdue check failed:", error);
+  }
+}
+
+// Roda uma vez na inicialização e depois periodicamente no próprio processo
+export function startOverdueScheduler(): () => void {
+  void runOverdueCheck();
+  const timer = setInterval(runOverdueCheck, OVERDUE_CHECK_INTERVAL_MS);
+  timer.unref();
+  return () => clearInterval(timer);
+}
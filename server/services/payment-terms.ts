@@ -0,0 +1,76 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import type { Invoice } from "@shared/schema";
+import { isValidPaymentTerms, parsePaymentTerms } from "@shared/payment-terms";
+
+type ScheduledInvoice = Pick<Invoice, "amount" | "balanceDue" | "issueDate" | "dueDate" | "paymentTerms">;
+
+export interface Installment {
+  dueDate: string;
+  amount: number;
+}
+
+export const agingBuckets = ["1-30", "31-60", "61-90", "90+"] as const;
+export type AgingBucket = typeof agingBuckets[number];
+
+function toDateOnly(value: string): Date {
+  return parseISO(value.substring(0, 10));
+}
+
+// O vencimento final é o da última parcela
+export function calculateDueDate(issueDate: string, terms: string): string {
+  const days = parsePaymentTerms(terms);
+  return format(addDays(toDateOnly(issueDate), days[days.length - 1]), "yyyy-MM-dd");
+}
+
+// Vencimento igual ao calculado pelo prazo: as parcelas seguem o prazo. Um vencimento
+// diferente foi informado explicitamente (importação, edição) e prevalece
+export function isDueDateFromTerms(issueDate: string, dueDate: string, terms: string): boolean {
+  return isValidPaymentTerms(terms) && calculateDueDate(issueDate, terms) === dueDate.substring(0, 10);
+}
+
+export function getInstallments(invoice: ScheduledInvoice): Installment[] {
+  const amountCents = Math.round(parseFloat(invoice.amount) * 100);
+  const followsTerms = invoice.paymentTerms && isValidPaymentTerms(invoice.paymentTerms) &&
+    (!invoice.dueDate || isDueDateFromTerms(invoice.issueDate, invoice.dueDate, invoice.paymentTerms));
+
+  if (invoice.paymentTerms && followsTerms) {
+    const days = parsePaymentTerms(invoice.paymentTerms);
+    const baseCents = Math.floor(amountCents / days.length);
+
+    return days.map((offset, index) => ({
+      dueDate: format(addDays(toDateOnly(invoice.issueDate), offset), "yyyy-MM-dd"),
+      // A diferença de arredondamento fica na última parcela
+      amount: (index === days.length - 1 ? amountCents - baseCents * (days.length - 1) : baseCents) / 100,
+    }));
+  }
+
+  if (invoice.dueDate) {
+    return [{ dueDate: invoice.dueDate.substring(0, 10), amount: amountCents / 100 }];
+  }
+
+  return [];
+}
+
+// Dias de atraso da parcela mais antiga ainda não coberta pelos pagamentos (0 se em dia)
+export function getDaysOverdue(invoice: ScheduledInvoice, today: Date = new Date()): number {
+  const amountCents = Math.round(parseFloat(invoice.amount) * 100);
+  const balanceCents = Math.round(parseFloat(invoice.balanceDue) * 100);
+  const paidCents = amountCents - balanceCents;
+
+  let cumulativeCents = 0;
+  for (const installment of getInstallments(invoice)) {
+    cumulativeCents += Math.round(installment.amount * 100);
+    if (cumulativeCents > paidCents) {
+      return Math.max(0, differenceInCalendarDays(today, toDateOnly(installment.dueDate)));
+    }
+  }
+
+  return 0;
+}
+
+export function getAgingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 30) return "1-30";
+  if (daysOverdue <= 60) return "31-60";
+  if (daysOverdue <= 90) return "61-90";
+  return "90+";
+}
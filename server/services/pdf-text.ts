@@ -0,0 +1,652 @@
+import { inflateSync } from "zlib";
+
+// Extração da camada de texto de PDFs (sem OCR): lê objetos, streams comprimidos,
+// fontes com ToUnicode e os operadores de texto das páginas, devolvendo as linhas
+// na ordem de leitura (de cima para baixo, da esquerda para a direita).
+
+interface PdfObject {
+  dict: string;
+  stream?: Buffer;
+}
+
+export interface PdfTextCell {
+  x: number;
+  width: number;
+  text: string;
+}
+
+// Linha de texto de uma página; as células preservam a posição horizontal das colunas
+export interface PdfTextLine {
+  text: string;
+  cells: PdfTextCell[];
+}
+
+interface TextChunk {
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+  text: string;
+}
+
+interface FontInfo {
+  codeLength: 1 | 2;
+  toUnicode?: Map<number, string>;
+  // Larguras dos glifos em milésimos do tamanho da fonte, por código
+  widths: Map<number, number>;
+  defaultWidth: number;
+}
+
+type Matrix = [number, number, number, number, number, number];
+
+// Limites de descompressão contra "zip bombs": por stream e somados no documento inteiro
+const MAX_STREAM_BYTES = 4 * 1024 * 1024;
+const MAX_DOCUMENT_BYTES = 32 * 1024 * 1024;
+
+interface DecodeBudget {
+  remaining: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+// Largura estimada quando a fonte não informa /Widths (ex.: as 14 fontes padrão)
+const DEFAULT_GLYPH_WIDTH = 550;
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+// Stream acima do limite é ignorado como um corrompido; estourar o total aborta a leitura
+function decodeStream(dict: string, data: Buffer, budget: DecodeBudget): Buffer | undefined {
+  if (!/\/Filter\s*(\[\s*)?\/FlateDecode/.test(dict)) {
+    // Apenas streams sem filtro ou Flate são suportados (os demais são imagens)
+    return /\/Filter/.test(dict) ? undefined : data;
+  }
+  let decoded: Buffer;
+  try {
+    decoded = inflateSync(data, { maxOutputLength: MAX_STREAM_BYTES });
+  } catch {
+    return undefined;
+  }
+  budget.remaining -= decoded.length;
+  if (budget.remaining < 0) {
+    throw new Error(`PDF content exceeds ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB when decompressed`);
+  }
+  return decoded;
+}
+
+function parseObjects(pdf: Buffer, budget: DecodeBudget): Map<number, PdfObject> {
+  const source = pdf.toString("latin1");
+  const objects = new Map<number, PdfObject>();
+  const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = objectPattern.exec(source))) {
+    const id = parseInt(match[1], 10);
+    const bodyStart = match.index + match[0].length;
+    const end = source.indexOf("endobj", bodyStart);
+    if (end === -1) break;
+
+    const body = source.substring(bodyStart, end);
+    const streamIndex = body.search(/\bstream\r?\n/);
+    if (streamIndex === -1) {
+      objects.set(id, { dict: body });
+    } else {
+      const dict = body.substring(0, streamIndex);
+      const dataStart = bodyStart + streamIndex + (body.startsWith("stream\r\n", streamIndex) ? 8 : 7);
+      const lengthMatch = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+      const dataEnd = lengthMatch
+        ? dataStart + parseInt(lengthMatch[1], 10)
+        : source.lastIndexOf("endstream", end);
+      objects.set(id, { dict, stream: pdf.subarray(dataStart, Math.max(dataStart, dataEnd)) });
+    }
+    objectPattern.lastIndex = end;
+  }
+
+  // Objetos compactados dentro de object streams (PDF 1.5+)
+  for (const object of Array.from(objects.values())) {
+    if (!object.stream || !/\/Type\s*\/ObjStm/.test(object.dict)) continue;
+    const decoded = decodeStream(object.dict, object.stream, budget);
+    const first = parseInt(object.dict.match(/\/First\s+(\d+)/)?.[1] ?? "", 10);
+    const count = parseInt(object.dict.match(/\/N\s+(\d+)/)?.[1] ?? "", 10);
+    if (!decoded || Number.isNaN(first) || Number.isNaN(count)) continue;
+
+    const content = decoded.toString("latin1");
+    const header = content.substring(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < count; i++) {
+      const id = header[i * 2];
+      const start = first + header[i * 2 + 1];
+      const stop = i + 1 < count ? first + header[(i + 1) * 2 + 1] : content.length;
+      if (!objects.has(id)) {
+        objects.set(id, { dict: content.substring(start, stop) });
+      }
+    }
+  }
+
+  return objects;
+}
+
+function resolveRef(objects: Map<number, PdfObject>, value: string | undefined): PdfObject | undefined {
+  const ref = value?.match(/^\s*(\d+)\s+\d+\s+R/);
+  return ref ? objects.get(parseInt(ref[1], 10)) : undefined;
+}
+
+// Conteúdo de um dicionário aninhado (<< ... >>) a partir de uma chave
+function extractDict(source: string, key: string): string | undefined {
+  const keyIndex = source.search(new RegExp(`/${key}(?![A-Za-z])`));
+  if (keyIndex === -1) return undefined;
+
+  const rest = source.substring(keyIndex + key.length + 1).trimStart();
+  if (!rest.startsWith("<<")) return rest; // referência indireta
+
+  let depth = 0;
+  for (let i = 0; i < rest.length - 1; i++) {
+    if (rest.startsWith("<<", i)) {
+      depth++;
+      i++;
+    } else if (rest.startsWith(">>", i)) {
+      depth--;
+      i++;
+      if (depth === 0) return rest.substring(0, i + 1);
+    }
+  }
+  return undefined;
+}
+
+function dictValue(objects: Map<number, PdfObject>, source: string, key: string): string | undefined {
+  const value = extractDict(source, key);
+  if (value === undefined) return undefined;
+  return value.startsWith("<<") ? value : resolveRef(objects, value)?.dict;
+}
+
+function hexToString(hex: string): string {
+  const codes: number[] = [];
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    codes.push(parseInt(hex.substring(i, i + 4), 16));
+  }
+  if (hex.length === 2) codes.push(parseInt(hex, 16));
+  // Sem spread: operandos longos estourariam o limite de argumentos
+  return codes.map(code => String.fromCharCode(code)).join("");
+}
+
+function parseToUnicode(cmap: string): { map: Map<number, string>; codeLength: 1 | 2 } {
+  const map = new Map<number, string>();
+  let codeLength: 1 | 2 = 1;
+
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9A-Fa-f]+)>/);
+  if (codespace && codespace[1].length >= 4) codeLength = 2;
+
+  for (const block of Array.from(cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g))) {
+    for (const entry of Array.from(block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]*)>/g))) {
+      map.set(parseInt(entry[1], 16), hexToString(entry[2]));
+      if (entry[1].length >= 4) codeLength = 2;
+    }
+  }
+
+  for (const block of Array.from(cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g))) {
+    for (const entry of Array.from(block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]*>|\[[^\]]*\])/g))) {
+      const low = parseInt(entry[1], 16);
+      const high = parseInt(entry[2], 16);
+      if (entry[1].length >= 4) codeLength = 2;
+
+      if (entry[3].startsWith("[")) {
+        const targets = Array.from(entry[3].matchAll(/<([0-9A-Fa-f]*)>/g)).map(target => hexToString(target[1]));
+        targets.forEach((target, offset) => map.set(low + offset, target));
+      } else {
+        const base = entry[3].slice(1, -1);
+        const baseCode = parseInt(base.slice(-4) || "0", 16);
+        const prefix = hexToString(base.slice(0, -4));
+        for (let code = low; code <= high && code - low < 65536; code++) {
+          map.set(code, prefix + String.fromCharCode(baseCode + code - low));
+        }
+      }
+    }
+  }
+
+  return { map, codeLength };
+}
+
+function arrayValue(objects: Map<number, PdfObject>, source: string, key: string): string | undefined {
+  const value = extractDict(source, key);
+  if (value === undefined) return undefined;
+  const array = value.startsWith("[") ? value : resolveRef(objects, value)?.dict.trim();
+  return array?.startsWith("[") ? array : undefined;
+}
+
+function numbersIn(source: string): number[] {
+  return Array.from(source.matchAll(/[+-]?(?:\d+\.?\d*|\.\d+)/g)).map(match => parseFloat(match[0]));
+}
+
+function loadWidths(objects: Map<number, PdfObject>, font: string, info: FontInfo) {
+  const widths = arrayValue(objects, font, "Widths");
+  if (widths) {
+    const firstChar = parseInt(font.match(/\/FirstChar\s+(\d+)/)?.[1] ?? "0", 10);
+    const values = numbersIn(widths.substring(0, widths.indexOf("]") + 1));
+    values.forEach((width, index) => info.widths.set(firstChar + index, width));
+    return;
+  }
+
+  // Fontes compostas: larguras no /W da fonte descendente (c [w1 w2 ...] ou c1 c2 w)
+  const descendants = arrayValue(objects, font, "DescendantFonts");
+  const descendant = descendants ? resolveRef(objects, descendants.substring(1)) : undefined;
+  if (!descendant) return;
+
+  info.defaultWidth = parseFloat(descendant.dict.match(/\/DW\s+([\d.]+)/)?.[1] ?? "1000");
+  const w = arrayValue(objects, descendant.dict, "W");
+  if (!w) return;
+
+  const entries = Array.from(w.substring(1).matchAll(/\[([^\]]*)\]|[+-]?[\d.]+/g));
+  for (let i = 0; i < entries.length; i++) {
+    const first = parseFloat(entries[i][0]);
+    const next = entries[i + 1];
+    if (!next) break;
+    if (next[1] !== undefined) {
+      numbersIn(next[1]).forEach((width, offset) => info.widths.set(first + offset, width));
+      i++;
+    } else if (entries[i + 2]) {
+      const last = parseFloat(next[0]);
+      const width = parseFloat(entries[i + 2][0]);
+      for (let code = first; code <= last && code - first < 65536; code++) info.widths.set(code, width);
+      i += 2;
+    }
+  }
+}
+
+function loadFonts(objects: Map<number, PdfObject>, resources: string | undefined, budget: DecodeBudget): Map<string, FontInfo> {
+  const fonts = new Map<string, FontInfo>();
+  const fontDict = resources ? dictValue(objects, resources, "Font") : undefined;
+  if (!fontDict) return fonts;
+
+  for (const entry of Array.from(fontDict.matchAll(/\/([^\s/<>[\]()]+)\s+(\d+\s+\d+\s+R)/g))) {
+    const font = resolveRef(objects, entry[2]);
+    if (!font) continue;
+
+    const info: FontInfo = {
+      codeLength: /\/Subtype\s*\/Type0/.test(font.dict) ? 2 : 1,
+      widths: new Map(),
+      defaultWidth: DEFAULT_GLYPH_WIDTH,
+    };
+    const toUnicode = resolveRef(objects, extractDict(font.dict, "ToUnicode"));
+    const cmapData = toUnicode?.stream ? decodeStream(toUnicode.dict, toUnicode.stream, budget) : undefined;
+    if (cmapData) {
+      const parsed = parseToUnicode(cmapData.toString("latin1"));
+      info.toUnicode = parsed.map;
+      info.codeLength = parsed.codeLength;
+    }
+    loadWidths(objects, font.dict, info);
+    fonts.set(entry[1], info);
+  }
+
+  return fonts;
+}
+
+// Texto e largura (em milésimos do tamanho da fonte) de uma string mostrada
+function decodeText(bytes: number[], font: FontInfo | undefined): { text: string; width: number; spaces: number } {
+  if (!font) {
+    return {
+      text: Buffer.from(bytes).toString("latin1"),
+      width: bytes.length * DEFAULT_GLYPH_WIDTH,
+      spaces: bytes.filter(byte => byte === 0x20).length,
+    };
+  }
+
+  let text = "";
+  let width = 0;
+  let spaces = 0;
+  for (let i = 0; i < bytes.length; i += font.codeLength) {
+    const code = font.codeLength === 2 ? (bytes[i] << 8) | (bytes[i + 1] ?? 0) : bytes[i];
+    const mapped = font.toUnicode?.get(code);
+    // Sem ToUnicode, fontes simples usam a codificação padrão (WinAnsi ≈ Latin-1)
+    text += mapped ?? (font.codeLength === 1 ? String.fromCharCode(code) : "");
+    width += font.widths.get(code) ?? font.defaultWidth;
+    // O espaçamento de palavras (Tw) só vale para o byte 32 em códigos de um byte
+    if (font.codeLength === 1 && code === 0x20) spaces++;
+  }
+  return { text, width, spaces };
+}
+
+type Token =
+  | { type: "number"; value: number }
+  | { type: "name"; value: string }
+  | { type: "string"; value: number[] }
+  | { type: "array"; value: Token[] }
+  | { type: "operator"; value: string };
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+class ContentLexer {
+  private position = 0;
+
+  constructor(private data: Buffer) {}
+
+  next(): Token | null | undefined {
+    const data = this.data;
+    while (this.position < data.length) {
+      const byte = data[this.position];
+      if (WHITESPACE.has(byte)) {
+        this.position++;
+      } else if (byte === 0x25) {
+        while (this.position < data.length && data[this.position] !== 0x0a && data[this.position] !== 0x0d) this.position++;
+      } else {
+        break;
+      }
+    }
+    if (this.position >= data.length) return undefined;
+
+    const byte = data[this.position];
+    if (byte === 0x28) return { type: "string", value: this.readLiteral() };
+    if (byte === 0x3c && data[this.position + 1] === 0x3c) {
+      this.skipDict();
+      return null;
+    }
+    if (byte === 0x3c) return { type: "string", value: this.readHex() };
+    if (byte === 0x5b) {
+      this.position++;
+      const items: Token[] = [];
+      let token: Token | null | undefined;
+      while ((token = this.next()) !== undefined) {
+        if (token?.type === "operator" && token.value === "]") break;
+        if (token) items.push(token);
+      }
+      return { type: "array", value: items };
+    }
+    if (byte === 0x5d) {
+      this.position++;
+      return { type: "operator", value: "]" };
+    }
+    if (byte === 0x2f) {
+      this.position++;
+      return { type: "name", value: this.readWord() };
+    }
+    if (byte === 0x3e || byte === 0x7b || byte === 0x7d || byte === 0x29) {
+      this.position++;
+      return null;
+    }
+
+    const word = this.readWord();
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return { type: "number", value: parseFloat(word) };
+    if (word === "BI") {
+      this.skipInlineImage();
+      return null;
+    }
+    return { type: "operator", value: word };
+  }
+
+  private readWord(): string {
+    const start = this.position;
+    while (this.position < this.data.length && !WHITESPACE.has(this.data[this.position]) && !DELIMITERS.has(this.data[this.position])) {
+      this.position++;
+    }
+    if (this.position === start) this.position++;
+    return this.data.toString("latin1", start, this.position);
+  }
+
+  private readLiteral(): number[] {
+    const bytes: number[] = [];
+    let depth = 0;
+    this.position++;
+
+    while (this.position < this.data.length) {
+      const byte = this.data[this.position++];
+      if (byte === 0x5c) {
+        const escaped = this.data[this.position++];
+        const simple: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+        if (escaped in simple) {
+          bytes.push(simple[escaped]);
+        } else if (escaped >= 0x30 && escaped <= 0x37) {
+          let octal = String.fromCharCode(escaped);
+          while (octal.length < 3 && this.data[this.position] >= 0x30 && this.data[this.position] <= 0x37) {
+            octal += String.fromCharCode(this.data[this.position++]);
+          }
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (escaped === 0x0d || escaped === 0x0a) {
+          if (escaped === 0x0d && this.data[this.position] === 0x0a) this.position++;
+        } else {
+          bytes.push(escaped);
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        bytes.push(byte);
+      } else if (byte === 0x29) {
+        if (depth === 0) break;
+        depth--;
+        bytes.push(byte);
+      } else {
+        bytes.push(byte);
+      }
+    }
+    return bytes;
+  }
+
+  private readHex(): number[] {
+    const end = this.data.indexOf(0x3e, this.position);
+    const hex = this.data.toString("latin1", this.position + 1, end === -1 ? this.data.length : end).replace(/\s/g, "");
+    this.position = end === -1 ? this.data.length : end + 1;
+    const padded = hex.length % 2 ? hex + "0" : hex;
+    return Array.from({ length: padded.length / 2 }, (_, i) => parseInt(padded.substring(i * 2, i * 2 + 2), 16));
+  }
+
+  private skipDict() {
+    let depth = 0;
+    while (this.position < this.data.length) {
+      if (this.data[this.position] === 0x3c && this.data[this.position + 1] === 0x3c) {
+        depth++;
+        this.position += 2;
+      } else if (this.data[this.position] === 0x3e && this.data[this.position + 1] === 0x3e) {
+        depth--;
+        this.position += 2;
+        if (depth === 0) return;
+      } else {
+        this.position++;
+      }
+    }
+  }
+
+  private skipInlineImage() {
+    const end = this.data.indexOf("EI", this.position, "latin1");
+    this.position = end === -1 ? this.data.length : end + 2;
+  }
+}
+
+function extractPageChunks(content: Buffer, fonts: Map<string, FontInfo>): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  const lexer = new ContentLexer(content);
+  const stack: Matrix[] = [];
+  let ctm: Matrix = IDENTITY;
+  let textMatrix: Matrix = IDENTITY;
+  let lineMatrix: Matrix = IDENTITY;
+  let font: FontInfo | undefined;
+  let fontSize = 10;
+  let leading = 0;
+  let charSpacing = 0;
+  let wordSpacing = 0;
+  let horizontalScale = 1;
+  let operands: Token[] = [];
+
+  const number = (index: number) => {
+    const token = operands[index];
+    return token?.type === "number" ? token.value : 0;
+  };
+  const moveLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+  const show = (bytes: number[]) => {
+    const decoded = decodeText(bytes, font);
+    const glyphs = bytes.length / (font?.codeLength ?? 1);
+    const advance = ((decoded.width / 1000) * fontSize + glyphs * charSpacing + decoded.spaces * wordSpacing) * horizontalScale;
+    const matrix = multiply(textMatrix, ctm);
+    const scale = Math.hypot(matrix[0], matrix[1]) || 1;
+    if (decoded.text.trim()) {
+      chunks.push({ x: matrix[4], y: matrix[5], width: advance * scale, fontSize: fontSize * scale, text: decoded.text });
+    }
+    textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix);
+  };
+
+  let token: Token | null | undefined;
+  while ((token = lexer.next()) !== undefined) {
+    if (!token) continue;
+    if (token.type !== "operator") {
+      operands.push(token);
+      continue;
+    }
+
+    switch (token.value) {
+      case "q": stack.push(ctm); break;
+      case "Q": ctm = stack.pop() ?? IDENTITY; break;
+      case "cm": ctm = multiply([number(0), number(1), number(2), number(3), number(4), number(5)], ctm); break;
+      case "BT": textMatrix = lineMatrix = IDENTITY; break;
+      case "Tf": {
+        const name = operands[0];
+        font = name?.type === "name" ? fonts.get(name.value) : undefined;
+        fontSize = number(1) || fontSize;
+        break;
+      }
+      case "TL": leading = number(0); break;
+      case "Tc": charSpacing = number(0); break;
+      case "Tw": wordSpacing = number(0); break;
+      case "Tz": horizontalScale = number(0) / 100; break;
+      case "Td": moveLine(number(0), number(1)); break;
+      case "TD": leading = -number(1); moveLine(number(0), number(1)); break;
+      case "Tm":
+        lineMatrix = textMatrix = [number(0), number(1), number(2), number(3), number(4), number(5)];
+        break;
+      case "T*": moveLine(0, -leading); break;
+      case "Tj": {
+        const text = operands[0];
+        if (text?.type === "string") show(text.value);
+        break;
+      }
+      case "'":
+      case "\"": {
+        if (token.value === "\"") {
+          wordSpacing = number(0);
+          charSpacing = number(1);
+        }
+        moveLine(0, -leading);
+        const text = operands[operands.length - 1];
+        if (text?.type === "string") show(text.value);
+        break;
+      }
+      case "TJ": {
+        const array = operands[0];
+        if (array?.type !== "array") break;
+        for (const item of array.value) {
+          if (item.type === "string") {
+            show(item.value);
+          } else if (item.type === "number") {
+            // Ajuste de posição em milésimos do tamanho da fonte; recuos grandes viram espaços nas linhas
+            const offset = (-item.value / 1000) * fontSize * horizontalScale;
+            textMatrix = multiply([1, 0, 0, 1, offset, 0], textMatrix);
+          }
+        }
+        break;
+      }
+    }
+    operands = [];
+  }
+
+  return chunks;
+}
+
+// Agrupa os trechos em linhas pela coordenada y e em células pelas lacunas em x
+function chunksToLines(chunks: TextChunk[]): PdfTextLine[] {
+  const sorted = [...chunks].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: TextChunk[][] = [];
+
+  for (const chunk of sorted) {
+    const row = rows[rows.length - 1];
+    const tolerance = Math.max(1, chunk.fontSize * 0.3);
+    if (row && Math.abs(row[0].y - chunk.y) <= tolerance) {
+      row.push(chunk);
+    } else {
+      rows.push([chunk]);
+    }
+  }
+
+  return rows.map(row => {
+    row.sort((a, b) => a.x - b.x);
+    const cells: PdfTextCell[] = [];
+    let previous: TextChunk | undefined;
+    for (const chunk of row) {
+      const gap = previous ? chunk.x - (previous.x + previous.width) : Infinity;
+      const cell = cells[cells.length - 1];
+      // Lacunas maiores que um "em" separam colunas (caixas do DANFE, células de tabelas)
+      if (!cell || gap > previous!.fontSize) {
+        cells.push({ x: chunk.x, width: chunk.width, text: chunk.text.replace(/\s+/g, " ").trim() });
+      } else {
+        const separator = gap > previous!.fontSize * 0.15 && !/\s$/.test(cell.text) && !/^\s/.test(chunk.text) ? " " : "";
+        cell.text = (cell.text + separator + chunk.text).replace(/\s+/g, " ").trim();
+        cell.width = chunk.x + chunk.width - cell.x;
+      }
+      previous = chunk;
+    }
+    const nonEmpty = cells.filter(cell => cell.text);
+    return { text: nonEmpty.map(cell => cell.text).join("  "), cells: nonEmpty };
+  }).filter(line => line.cells.length > 0);
+}
+
+function pageResources(objects: Map<number, PdfObject>, page: PdfObject): string | undefined {
+  let current: PdfObject | undefined = page;
+  // Recursos podem ser herdados do nó /Pages pai
+  for (let depth = 0; current && depth < 32; depth++) {
+    const resources = dictValue(objects, current.dict, "Resources");
+    if (resources) return resources;
+    current = resolveRef(objects, extractDict(current.dict, "Parent"));
+  }
+  return undefined;
+}
+
+function refsIn(value: string | undefined): number[] {
+  if (!value) return [];
+  const source = value.startsWith("[") ? value.substring(0, value.indexOf("]") + 1) : value.match(/^\s*\d+\s+\d+\s+R/)?.[0] ?? "";
+  return Array.from(source.matchAll(/(\d+)\s+\d+\s+R/g)).map(ref => parseInt(ref[1], 10));
+}
+
+// Páginas na ordem do documento, percorrendo a árvore /Pages a partir do catálogo
+function pageOrder(objects: Map<number, PdfObject>): PdfObject[] {
+  const isPage = (object: PdfObject) => /\/Type\s*\/Page(?![A-Za-z])/.test(object.dict);
+  const catalog = Array.from(objects.values()).find(object => /\/Type\s*\/Catalog/.test(object.dict));
+  const pages: PdfObject[] = [];
+  const visited = new Set<number>();
+
+  const walk = (id: number) => {
+    const node = objects.get(id);
+    if (!node || visited.has(id)) return;
+    visited.add(id);
+    if (isPage(node)) {
+      pages.push(node);
+    } else {
+      refsIn(extractDict(node.dict, "Kids")).forEach(walk);
+    }
+  };
+  refsIn(catalog ? extractDict(catalog.dict, "Pages") : undefined).forEach(walk);
+
+  if (pages.length > 0) return pages;
+  return Array.from(objects.entries())
+    .filter(([, object]) => isPage(object))
+    .sort(([a], [b]) => a - b)
+    .map(([, object]) => object);
+}
+
+export function extractPdfText(pdf: Buffer): PdfTextLine[][] {
+  const budget: DecodeBudget = { remaining: MAX_DOCUMENT_BYTES };
+  const objects = parseObjects(pdf, budget);
+
+  return pageOrder(objects).map(page => {
+    const fonts = loadFonts(objects, pageResources(objects, page), budget);
+    const streams = refsIn(extractDict(page.dict, "Contents"))
+      .map(id => objects.get(id))
+      .map(object => object?.stream ? decodeStream(object.dict, object.stream, budget) : undefined)
+      .filter((data): data is Buffer => Boolean(data));
+
+    return chunksToLines(extractPageChunks(Buffer.concat(streams.flatMap(data => [data, Buffer.from("\n")])), fonts));
+  });
+}
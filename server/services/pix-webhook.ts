@@ -0,0 +1,80 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { format } from "date-fns";
+import { z } from "zod";
+
+// Formato de notificação da API Pix do BACEN, usado pelos PSPs
+export const pixWebhookSchema = z.object({
+  pix: z.array(z.object({
+    endToEndId: z.string().min(1).max(32),
+    txid: z.string().max(35).optional(),
+    valor: z.string().regex(/^\d{1,10}\.\d{2}$/, "valor must use two decimals"),
+    horario: z.string().datetime({ offset: true }),
+    infoPagador: z.string().optional(),
+  })).min(1),
+});
+
+export type PixWebhookPayload = z.infer<typeof pixWebhookSchema>;
+export type PixWebhookEvent = PixWebhookPayload["pix"][number];
+
+export const PIX_SIGNATURE_HEADER = "x-pix-signature";
+
+export function getPixWebhookSecret(): string | undefined {
+  return process.env.PIX_WEBHOOK_SECRET;
+}
+
+export function signPixWebhook(rawBody: string | Buffer, secret: string): string {
+  return "sha256=" + createHmac("sha256", secret).update(rawBody).digest("hex");
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+// Somente a assinatura HMAC do corpo autentica o webhook
+export function verifyPixWebhook(rawBody: Buffer | undefined, signature: string | undefined, secret: string): boolean {
+  if (!signature || !rawBody) return false;
+  return safeEqual(signature, signPixWebhook(rawBody, secret));
+}
+
+// PSPs que não assinam o corpo enviam o segredo em ?hmac=. Só vale com opt-in explícito e
+// vindo de um IP liberado; sem lista de IPs a opção fica desligada.
+export function getPixSharedSecretAllowedIps(): string[] | undefined {
+  if (process.env.PIX_WEBHOOK_ALLOW_SHARED_SECRET !== "true") return undefined;
+  const ips = (process.env.PIX_WEBHOOK_ALLOWED_IPS ?? "").split(",").map(ip => ip.trim()).filter(Boolean);
+  return ips.length > 0 ? ips : undefined;
+}
+
+function normalizeIp(ip: string): string {
+  return ip.startsWith("::ffff:") ? ip.substring(7) : ip;
+}
+
+export function verifyPixSharedSecret(
+  sharedSecret: string | undefined,
+  ip: string | undefined,
+  secret: string,
+  allowedIps: string[],
+): boolean {
+  if (!sharedSecret || !ip) return false;
+  if (!allowedIps.map(normalizeIp).includes(normalizeIp(ip))) return false;
+  return safeEqual(sharedSecret, secret);
+}
+
+// endToEndId: "E" + ISPB (8) + data/hora UTC (yyyyMMddHHmm) + 11 caracteres alfanuméricos
+function generateEndToEndId(ispb: string, date: Date): string {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  const suffix = Array.from(randomBytes(11), byte => alphabet[byte % alphabet.length]).join("");
+  const utc = new Date(date.getTime() + date.getTimezoneOffset() * 60000);
+  return `E${ispb}${format(utc, "yyyyMMddHHmm")}${suffix}`;
+}
+
+export function buildSimulatedPixEvent(txid: string, amount: string, paidAt: Date = new Date()): PixWebhookEvent {
+  return {
+    endToEndId: generateEndToEndId("00000000", paidAt),
+    txid,
+    valor: parseFloat(amount).toFixed(2),
+    horario: paidAt.toISOString(),
+    infoPagador: "Pagamento simulado",
+  };
+}
@@ -1,35 +1,144 @@
 import QRCode from "qrcode";
 import { randomBytes } from "crypto";
+import { z } from "zod";
 
-// PIX EMV standard implementation
-export function generatePixCode(amount: string | number, description: string): string {
-  const amountStr = typeof amount === 'string' ? amount : amount.toString();
-  const pixKey = process.env.PIX_KEY || "contato@deltasilkprint.com.br";
-  const merchantName = "DELTA SILK PRINT";
-  const merchantCity = "SAO PAULO";
-  const txId = randomBytes(16).toString('hex').substring(0, 25);
-  
-  // PIX EMV payload
-  const payload = [
-    "00", "02", "01", "12", // Payload format indicator
-    "26", String(pixKey.length + 19).padStart(2, '0'), // Merchant account information
-    "0014", "br.gov.bcb.pix", // GUI
-    "01", String(pixKey.length).padStart(2, '0'), pixKey, // PIX key
-    "52", "0000", // Merchant category code
-    "53", "986", // Transaction currency (BRL)
-    "54", String(amountStr.length).padStart(2, '0'), amountStr, // Transaction amount
-    "58", "02", "BR", // Country code
-    "59", String(merchantName.length).padStart(2, '0'), merchantName, // Merchant name
-    "60", String(merchantCity.length).padStart(2, '0'), merchantCity, // Merchant city
-    "62", String(txId.length + 4).padStart(2, '0'), "05", String(txId.length).padStart(2, '0'), txId, // Additional data
-    "63", "04" // CRC placeholder
-  ].join("");
-  
-  // Calculate CRC16
+// Limites do padrão EMV / Manual de Padrões para Iniciação do Pix (BR Code)
+const MAX_FIELD_LENGTH = 99;
+const MAX_TXID_LENGTH = 25;
+const MAX_MERCHANT_NAME_LENGTH = 25;
+const MAX_MERCHANT_CITY_LENGTH = 15;
+const MAX_AMOUNT_LENGTH = 13;
+const PIX_GUI = "br.gov.bcb.pix";
+const STATIC_TXID = "***";
+
+export interface PixMerchantConfig {
+  pixKey: string;
+  merchantName: string;
+  merchantCity: string;
+}
+
+export interface PixPayloadOptions {
+  amount?: string | number;
+  txid?: string;
+  description?: string;
+  // URL do payload fornecida pelo PSP; quando presente o BR Code é dinâmico
+  location?: string;
+  merchant?: Partial<PixMerchantConfig>;
+}
+
+export function getPixMerchantConfig(): PixMerchantConfig {
+  return {
+    pixKey: process.env.PIX_KEY || "contato@deltasilkprint.com.br",
+    merchantName: process.env.PIX_MERCHANT_NAME || "DELTA SILK PRINT",
+    merchantCity: process.env.PIX_MERCHANT_CITY || "SAO PAULO",
+  };
+}
+
+// Nome e cidade aceitam apenas caracteres ASCII, sem acentos
+function normalizeText(value: string, maxLength: number): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7E]/g, "")
+    .trim()
+    .toUpperCase()
+    .substring(0, maxLength);
+}
+
+function emvField(id: string, value: string): string {
+  if (value.length === 0) {
+    throw new Error(`EMV field ${id} cannot be empty`);
+  }
+  if (value.length > MAX_FIELD_LENGTH) {
+    throw new Error(`EMV field ${id} exceeds ${MAX_FIELD_LENGTH} characters (${value.length})`);
+  }
+  return id + String(value.length).padStart(2, "0") + value;
+}
+
+// Maior valor que cabe no campo de valor do BR Code (13 caracteres, duas casas)
+export const MAX_PIX_AMOUNT = 9_999_999_999.99;
+
+export const pixQrCodeSchema = z.object({
+  amount: z.coerce.number().min(0.01).max(MAX_PIX_AMOUNT).optional(),
+  description: z.string().max(MAX_FIELD_LENGTH).optional(),
+  invoiceId: z.coerce.number().int().positive().optional(),
+});
+
+export function formatPixAmount(amount: string | number): string {
+  const value = typeof amount === "string" ? parseFloat(amount) : amount;
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid PIX amount: ${amount}`);
+  }
+
+  const formatted = value.toFixed(2);
+  if (formatted.length > MAX_AMOUNT_LENGTH) {
+    throw new Error(`PIX amount exceeds ${MAX_AMOUNT_LENGTH} characters`);
+  }
+  return formatted;
+}
+
+export function generateTxid(): string {
+  // 25 caracteres alfanuméricos, o máximo permitido para o txid
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  const bytes = randomBytes(MAX_TXID_LENGTH);
+  return Array.from(bytes, byte => alphabet[byte % alphabet.length]).join("");
+}
+
+function validateTxid(txid: string) {
+  if (txid === STATIC_TXID) return;
+  if (!/^[A-Za-z0-9]+$/.test(txid)) {
+    throw new Error("PIX txid must be alphanumeric");
+  }
+  if (txid.length > MAX_TXID_LENGTH) {
+    throw new Error(`PIX txid exceeds ${MAX_TXID_LENGTH} characters`);
+  }
+}
+
+export function buildPixPayload(options: PixPayloadOptions = {}): string {
+  const merchant = { ...getPixMerchantConfig(), ...options.merchant };
+  const isDynamic = Boolean(options.location);
+  const txid = isDynamic ? STATIC_TXID : (options.txid || STATIC_TXID);
+  validateTxid(txid);
+
+  // Merchant account information (GUI + chave ou URL do PSP + descrição)
+  const accountInfo = [emvField("00", PIX_GUI)];
+  if (isDynamic) {
+    accountInfo.push(emvField("25", options.location!.replace(/^https?:\/\//, "")));
+  } else {
+    accountInfo.push(emvField("01", merchant.pixKey));
+  }
+  if (options.description) {
+    const available = MAX_FIELD_LENGTH - accountInfo.join("").length - 4;
+    if (available > 0) {
+      accountInfo.push(emvField("02", normalizeText(options.description, available)));
+    }
+  }
+
+  const fields = [
+    emvField("00", "01"), // Payload format indicator
+    emvField("01", isDynamic ? "12" : "11"), // Point of initiation method: 12 = uso único, 11 = reutilizável
+    emvField("26", accountInfo.join("")),
+    emvField("52", "0000"), // Merchant category code
+    emvField("53", "986"), // Transaction currency (BRL)
+  ];
+  if (options.amount !== undefined && options.amount !== null && options.amount !== "") {
+    fields.push(emvField("54", formatPixAmount(options.amount)));
+  }
+  fields.push(
+    emvField("58", "BR"),
+    emvField("59", normalizeText(merchant.merchantName, MAX_MERCHANT_NAME_LENGTH)),
+    emvField("60", normalizeText(merchant.merchantCity, MAX_MERCHANT_CITY_LENGTH)),
+    emvField("62", emvField("05", txid)),
+  );
+
+  const payload = fields.join("") + "6304";
   const crc = calculateCRC16(payload);
-  const finalPayload = payload + crc.toString(16).toUpperCase().padStart(4, '0');
-  
-  return finalPayload;
+  return payload + crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+// PIX EMV standard implementation
+export function generatePixCode(amount: string | number, description: string, txid?: string): string {
+  return buildPixPayload({ amount, description, txid });
 }
 
 // Cache para QR codes
@@ -44,7 +153,6 @@ export async function generatePixQRCode(pixCode: string): Promise<string> {
     
     const qrCodeDataURL = await QRCode.toDataURL(pixCode, {
       type: 'image/png',
-      quality: 0.9,
       margin: 1,
       width: 256,
       color: {
@@ -56,7 +164,9 @@ export async function generatePixQRCode(pixCode: string): Promise<string> {
     // Salvar no cache (máximo 100 itens)
     if (qrCodeCache.size >= 100) {
       const firstKey = qrCodeCache.keys().next().value;
-      qrCodeCache.delete(firstKey);
+      if (firstKey !== undefined) {
+        qrCodeCache.delete(firstKey);
+      }
     }
     qrCodeCache.set(pixCode, qrCodeDataURL);
     
@@ -67,6 +177,141 @@ export async function generatePixQRCode(pixCode: string): Promise<string> {
   }
 }
 
+export interface EmvField {
+  id: string;
+  length: number;
+  value: string;
+  offset: number;
+  children?: EmvField[];
+}
+
+export interface DecodedPixCode {
+  type: "static" | "dynamic";
+  pixKey: string | null;
+  location: string | null;
+  description: string | null;
+  amount: string | null;
+  merchantName: string;
+  merchantCity: string;
+  txid: string | null;
+  crc: string;
+  fields: EmvField[];
+}
+
+export class PixDecodeError extends Error {
+  constructor(message: string, public tag: string | null, public offset: number) {
+    super(tag ? `Tag ${tag} at offset ${offset}: ${message}` : `Offset ${offset}: ${message}`);
+  }
+}
+
+// Templates aninhados: 26-51 (merchant account information) e 62 (additional data)
+const TEMPLATE_TAGS = new Set(["62", ...Array.from({ length: 26 }, (_, i) => String(26 + i))]);
+const MANDATORY_TAGS = ["00", "52", "53", "58", "59", "60", "63"];
+
+export function parseEmvFields(payload: string, baseOffset = 0, parentTag?: string): EmvField[] {
+  const fields: EmvField[] = [];
+  let position = 0;
+
+  while (position < payload.length) {
+    const offset = baseOffset + position;
+    const header = payload.substring(position, position + 4);
+    const id = header.substring(0, 2);
+
+    if (header.length < 4) {
+      throw new PixDecodeError("truncated field header", parentTag ?? null, offset);
+    }
+    if (!/^\d{2}$/.test(id)) {
+      throw new PixDecodeError(`invalid tag "${id}"`, parentTag ?? null, offset);
+    }
+
+    const tag = parentTag ? `${parentTag}.${id}` : id;
+    const lengthStr = header.substring(2, 4);
+    if (!/^\d{2}$/.test(lengthStr)) {
+      throw new PixDecodeError(`invalid length "${lengthStr}"`, tag, offset);
+    }
+
+    const length = parseInt(lengthStr, 10);
+    const value = payload.substring(position + 4, position + 4 + length);
+    if (value.length < length) {
+      throw new PixDecodeError(`declared length ${length} exceeds remaining ${value.length} characters`, tag, offset);
+    }
+
+    const field: EmvField = { id, length, value, offset };
+    if (!parentTag && TEMPLATE_TAGS.has(id)) {
+      field.children = parseEmvFields(value, offset + 4, id);
+    }
+    fields.push(field);
+    position += 4 + length;
+  }
+
+  return fields;
+}
+
+export function decodePixCode(pixCode: string): DecodedPixCode {
+  const code = pixCode.trim();
+  const fields = parseEmvFields(code);
+  const find = (id: string) => fields.find(field => field.id === id);
+
+  for (const id of MANDATORY_TAGS) {
+    if (!find(id)) {
+      throw new PixDecodeError("mandatory field is missing", id, code.length);
+    }
+  }
+
+  const formatIndicator = find("00")!;
+  if (formatIndicator.offset !== 0 || formatIndicator.value !== "01") {
+    throw new PixDecodeError('payload format indicator must be the first field with value "01"', "00", formatIndicator.offset);
+  }
+
+  const crcField = find("63")!;
+  if (crcField !== fields[fields.length - 1] || crcField.length !== 4) {
+    throw new PixDecodeError("CRC must be the last field with 4 characters", "63", crcField.offset);
+  }
+  const expectedCrc = calculateCRC16(code.substring(0, crcField.offset + 4)).toString(16).toUpperCase().padStart(4, "0");
+  if (crcField.value.toUpperCase() !== expectedCrc) {
+    throw new PixDecodeError(`CRC mismatch: expected ${expectedCrc}, got ${crcField.value}`, "63", crcField.offset);
+  }
+
+  const currency = find("53")!;
+  if (currency.value !== "986") {
+    throw new PixDecodeError(`unsupported currency "${currency.value}" (expected 986/BRL)`, "53", currency.offset);
+  }
+
+  const account = fields.find(field =>
+    field.children?.some(child => child.id === "00" && child.value.toLowerCase() === PIX_GUI) && field.id !== "62"
+  );
+  if (!account) {
+    throw new PixDecodeError(`no merchant account template with GUI ${PIX_GUI}`, "26", code.length);
+  }
+  const accountField = (id: string) => account.children!.find(child => child.id === id)?.value ?? null;
+
+  const pixKey = accountField("01");
+  const location = accountField("25");
+  if (!pixKey && !location) {
+    throw new PixDecodeError("merchant account must contain a key (01) or a location URL (25)", account.id, account.offset);
+  }
+
+  const amount = find("54");
+  if (amount && !/^\d+(\.\d{1,2})?$/.test(amount.value)) {
+    throw new PixDecodeError(`invalid amount "${amount.value}"`, "54", amount.offset);
+  }
+
+  const txid = find("62")?.children?.find(child => child.id === "05")?.value ?? null;
+
+  return {
+    type: location ? "dynamic" : "static",
+    pixKey,
+    location,
+    description: accountField("02"),
+    amount: amount?.value ?? null,
+    merchantName: find("59")!.value,
+    merchantCity: find("60")!.value,
+    txid: txid && txid !== STATIC_TXID ? txid : null,
+    crc: crcField.value,
+    fields,
+  };
+}
+
 function calculateCRC16(data: string): number {
   let crc = 0xFFFF;
   const polynomial = 0x1021;
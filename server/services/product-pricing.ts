@@ -0,0 +1,31 @@
+import type { InvoiceItem, PriceTier, Product } from "@shared/schema";
+import { InvoiceTotalsError } from "./invoice-totals";
+
+// Preço unitário da faixa que contém a quantidade; fora das faixas vale o preço padrão
+export function resolveTierPrice(product: Pick<Product, "defaultPrice" | "priceTiers">, quantity: number): number {
+  const tiers: PriceTier[] = product.priceTiers ?? [];
+  const tier = tiers.find(t => quantity >= t.minQuantity && (t.maxQuantity == null || quantity <= t.maxQuantity));
+  return tier ? tier.unitPrice : parseFloat(product.defaultPrice);
+}
+
+// Completa as linhas que referenciam o catálogo; preço informado na linha prevalece
+export function applyCatalogPrices(items: InvoiceItem[], catalog: Product[]): InvoiceItem[] {
+  return items.map((item, index) => {
+    if (item.productId === undefined) return item;
+
+    const product = catalog.find(p => p.id === item.productId);
+    if (!product) {
+      throw new InvoiceTotalsError(`Item ${index + 1}: product ${item.productId} not found`);
+    }
+    if (!product.active && item.unitPrice === undefined) {
+      throw new InvoiceTotalsError(`Item ${index + 1}: product ${product.sku} is inactive`);
+    }
+
+    return {
+      ...item,
+      description: item.description ?? product.name,
+      unit: item.unit ?? product.unit,
+      unitPrice: item.unitPrice ?? resolveTierPrice(product, item.quantity),
+    };
+  });
+}
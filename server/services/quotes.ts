@@ -0,0 +1,38 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import type { Quote, QuoteStatus } from "@shared/schema";
+
+// Transições permitidas por POST /api/quotes/:id/status; recusados e expirados voltam
+// a rascunho apenas por revisão (PUT), e aceitos ficam travados para conversão
+const quoteTransitions: Record<QuoteStatus, readonly QuoteStatus[]> = {
+  draft: ["sent"],
+  sent: ["accepted", "rejected", "expired"],
+  accepted: [],
+  rejected: [],
+  expired: [],
+};
+
+export function canTransitionQuote(from: string, to: QuoteStatus): boolean {
+  return (quoteTransitions[from as QuoteStatus] ?? []).includes(to);
+}
+
+// A validade inclui o próprio dia informado em validUntil
+export function isQuoteExpired(quote: Pick<Quote, "validUntil">, today: Date = new Date()): boolean {
+  return differenceInCalendarDays(today, parseISO(quote.validUntil.substring(0, 10))) > 0;
+}
+
+// Conteúdo guardado em quote_revisions antes de uma revisão
+export function buildQuoteSnapshot(quote: Quote) {
+  return {
+    status: quote.status,
+    issueDate: quote.issueDate,
+    validUntil: quote.validUntil,
+    paymentTerms: quote.paymentTerms,
+    items: quote.items,
+    amount: quote.amount,
+    subtotal: quote.subtotal,
+    discountTotal: quote.discountTotal,
+    taxTotal: quote.taxTotal,
+    notes: quote.notes,
+    decidedAt: quote.decidedAt,
+  };
+}
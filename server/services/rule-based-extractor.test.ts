@@ -0,0 +1,29 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import { RuleBasedInvoiceExtractor } from "./rule-based-extractor";
+import { ExtractionError } from "./invoice-extractor";
+
+// DANFE mínimo com camada de texto; a última linha é um operando de 200 mil bytes em uma
+// fonte ausente dos recursos, que não pode derrubar a extração
+const danfe = readFileSync(new URL("./__fixtures__/danfe.pdf", import.meta.url));
+
+test("extracts DANFE fields and items from the text layer", async () => {
+  const { fields, confidence } = await new RuleBasedInvoiceExtractor().extract(danfe);
+
+  assert.equal(fields.number, "12345");
+  assert.equal(fields.clientName, "MALHARIA EXEMPLO LTDA");
+  assert.equal(fields.clientDocument, "11222333000181");
+  assert.equal(fields.issueDate, "2024-03-15");
+  assert.equal(fields.dueDate, "2024-04-14");
+  assert.equal(fields.amount, 1500);
+  assert.deepEqual(fields.items, [{ description: "CAMISETA ESTAMPADA", quantity: 100, unitPrice: 15, total: 1500 }]);
+  assert.equal(confidence.items, 0.9);
+});
+
+test("rejects a PDF without a text layer", async () => {
+  await assert.rejects(
+    new RuleBasedInvoiceExtractor().extract(Buffer.from("%PDF-1.4\n%%EOF\n")),
+    (error: unknown) => error instanceof ExtractionError && error.message === "PDF has no text layer",
+  );
+});
@@ -0,0 +1,272 @@
+import type { ExtractedInvoice } from "@shared/schema";
+import { ExtractionError, emptyExtraction, extractedFieldNames, type InvoiceExtraction, type InvoiceExtractor } from "./invoice-extractor";
+import { extractPdfText, type PdfTextCell, type PdfTextLine } from "./pdf-text";
+import { isValidCnpj, isValidCpf, onlyDigits } from "@shared/documents";
+
+// Extração por regras para DANFE e NFS-e com camada de texto: sem rede e determinística.
+// A confiança de cada campo reflete como ele foi encontrado (rótulo na mesma célula,
+// valor na caixa abaixo do rótulo, ou apenas um padrão solto no documento).
+
+interface FieldMatch {
+  value: string;
+  confidence: number;
+}
+
+const DATE = /\d{2}\/\d{2}\/\d{4}/;
+const MONEY = /(?:R\$\s*)?(\d{1,3}(?:\.\d{3})+,\d{2,4}|\d+,\d{2,4})/;
+const DOCUMENT = /\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}|\d{3}\.\d{3}\.\d{3}-\d{2}|\d{14}|\d{11}/;
+const NUMBER = /\d{1,3}(?:\.\d{3})+|\d+/;
+const TEXT = /[A-Za-zÀ-ÿ0-9].*/;
+
+const RECIPIENT_SECTION = /DESTINAT[AÁ]RIO|TOMADOR\s+D[OE]S?\s+SERVI[CÇ]OS?|^TOMADOR\b/i;
+const SECTION_END = /FATURA|DUPLICATA|C[AÁ]LCULO\s+DO\s+IMPOSTO|TRANSPORTADOR|DADOS\s+DOS?\s+PRODUTOS?|DISCRIMINA[CÇ][AÃ]O|DESCRI[CÇ][AÃ]O\s+DOS?\s+SERVI[CÇ]OS?|INTERMEDI[AÁ]RIO|VALOR\s+TOTAL/i;
+const DESCRIPTION_SECTION = /DISCRIMINA[CÇ][AÃ]O\s+DOS?\s+SERVI[CÇ]OS?|DESCRI[CÇ][AÃ]O\s+DOS?\s+SERVI[CÇ]OS?/i;
+const DESCRIPTION_END = /VALOR|C[OÓ]DIGO\s+D[OE]\s+SERVI[CÇ]O|OUTRAS\s+INFORMA[CÇ][OÕ]ES|DADOS\s+ADICIONAIS|RETEN[CÇ][OÕ]ES|\bISS\b/i;
+
+// Do mais específico para o mais genérico: o primeiro rótulo encontrado vence
+const AMOUNT_LABELS = [
+  /VALOR\s+TOTAL\s+DA\s+NOTA(?:\s+FISCAL)?/i,
+  /VALOR\s+L[IÍ]QUIDO(?:\s+DA\s+NOTA)?/i,
+  /VALOR\s+TOTAL\s+DOS?\s+SERVI[CÇ]OS?/i,
+  /VALOR\s+DOS\s+SERVI[CÇ]OS/i,
+  /VALOR\s+TOTAL/i,
+];
+const ISSUE_DATE_LABELS = [
+  /DATA\s+(?:E\s+HORA\s+)?D[AE]\s+EMISS[AÃ]O/i,
+  /EMITIDA\s+EM/i,
+  /EMISS[AÃ]O/i,
+];
+const DUE_DATE_LABELS = [/DATA\s+D[OE]\s+VENCIMENTO/i, /VENCIMENTO/i, /\bVENC\./i];
+const NUMBER_LABELS = [
+  /N[UÚ]MERO\s+DA\s+(?:NFS-?E|NF-?E|NOTA(?:\s+FISCAL)?)/i,
+  /NF-?E\s+N[º°o]\.?/i,
+  /(?:^|\s)N[º°]\.?/i,
+  /^N[UÚ]MERO\b/i,
+];
+const NAME_LABELS = [/NOME\s*\/\s*RAZ[AÃ]O\s+SOCIAL/i, /RAZ[AÃ]O\s+SOCIAL/i, /NOME\s*\/\s*NOME\s+EMPRESARIAL/i, /^NOME\b/i];
+const DOCUMENT_LABELS = [/CNPJ\s*\/\s*CPF|CPF\s*\/\s*CNPJ/i, /CNPJ/i, /CPF/i];
+
+// Linha de produto do DANFE: código, descrição, NCM, CST, CFOP, unidade, quantidade, unitário, total
+const DANFE_ITEM = /^(\S+)\s+(.+?)\s+(\d{8})\s+(?:\d{3,4}\s+)?(\d{4})\s+([A-Za-z]{1,6})\s+([\d.]+,\d+)\s+([\d.]+,\d+)\s+([\d.]+,\d+)/;
+// Linha genérica de tabela de serviços: descrição, quantidade, unitário, total
+const TABLE_ITEM = /^(.+?)\s{2,}([\d.]+(?:,\d+)?)\s{2,}(?:R\$\s*)?([\d.]+,\d{2,4})\s{2,}(?:R\$\s*)?([\d.]+,\d{2,4})$/;
+
+export function parseBrazilianNumber(value: string): number {
+  return parseFloat(value.replace(/R\$\s*/, "").replace(/\./g, "").replace(",", "."));
+}
+
+export function parseBrazilianDate(value: string): string | null {
+  const match = value.match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (!match) return null;
+
+  const [, day, month, year] = match;
+  const date = new Date(Date.UTC(parseInt(year), parseInt(month) - 1, parseInt(day)));
+  if (date.getUTCDate() !== parseInt(day) || date.getUTCMonth() !== parseInt(month) - 1) return null;
+  return `${year}-${month}-${day}`;
+}
+
+function anchored(pattern: RegExp): RegExp {
+  return new RegExp(`^(?:${pattern.source})`, pattern.flags);
+}
+
+function overlaps(a: PdfTextCell, b: PdfTextCell): boolean {
+  const tolerance = 4;
+  return a.x - tolerance <= b.x + b.width && b.x - tolerance <= a.x + a.width;
+}
+
+// Valor de um campo rotulado: na mesma célula ("Emissão: 15/03/2024"), na célula seguinte
+// da linha, ou na caixa logo abaixo do rótulo (layout do DANFE)
+function findLabelled(lines: PdfTextLine[], labels: RegExp[], value: RegExp, from = 0, to = lines.length): FieldMatch | undefined {
+  const valuePattern = anchored(value);
+
+  for (const label of labels) {
+    for (let i = from; i < Math.min(to, lines.length); i++) {
+      const cells = lines[i].cells;
+      for (let c = 0; c < cells.length; c++) {
+        const labelMatch = cells[c].text.match(label);
+        if (!labelMatch) continue;
+
+        const rest = cells[c].text.slice(labelMatch.index! + labelMatch[0].length).replace(/^[\s:.=\-–]+/, "");
+        const inline = rest.match(valuePattern);
+        if (inline) return { value: inline[0], confidence: 0.95 };
+        if (rest) continue;
+
+        // "Emissão:" seguido do valor na próxima célula; sem os dois-pontos é cabeçalho de caixa
+        const next = cells[c].text.trimEnd().endsWith(":") ? cells[c + 1]?.text.match(valuePattern) : null;
+        if (next) return { value: next[0], confidence: 0.9 };
+
+        for (let j = i + 1; j <= i + 2 && j < Math.min(to, lines.length); j++) {
+          const below = lines[j].cells.find(cell => overlaps(cell, cells[c]));
+          const match = below?.text.match(valuePattern);
+          if (match) return { value: match[0], confidence: 0.85 };
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function findSection(lines: PdfTextLine[], start: RegExp, end: RegExp, maxLines: number): [number, number] | undefined {
+  const from = lines.findIndex(line => start.test(line.text));
+  if (from === -1) return undefined;
+
+  let to = from + 1;
+  while (to < lines.length && to - from <= maxLines && !end.test(lines[to].text)) to++;
+  return [from, to];
+}
+
+function extractDocument(lines: PdfTextLine[], section: [number, number] | undefined): FieldMatch | undefined {
+  if (!section) return undefined;
+
+  const labelled = findLabelled(lines, DOCUMENT_LABELS, DOCUMENT, section[0], section[1]);
+  let match = labelled;
+  if (!match) {
+    for (let i = section[0]; i < section[1] && !match; i++) {
+      const loose = lines[i].text.match(DOCUMENT);
+      if (loose) match = { value: loose[0], confidence: 0.7 };
+    }
+  }
+  if (!match) return undefined;
+
+  const digits = onlyDigits(match.value);
+  const valid = digits.length === 14 ? isValidCnpj(digits) : isValidCpf(digits);
+  // Dígito verificador inválido indica erro de leitura: mantém o valor para a revisão
+  return { value: digits, confidence: valid ? match.confidence : 0.3 };
+}
+
+function extractItems(lines: PdfTextLine[]): ExtractedInvoice["items"] {
+  const items: ExtractedInvoice["items"] = [];
+  let inTable = false;
+
+  for (const line of lines) {
+    const danfe = line.text.replace(/\s+/g, " ").match(DANFE_ITEM);
+    if (danfe) {
+      items.push({
+        description: danfe[2].trim(),
+        quantity: parseBrazilianNumber(danfe[6]),
+        unitPrice: parseBrazilianNumber(danfe[7]),
+        total: parseBrazilianNumber(danfe[8]),
+      });
+      continue;
+    }
+
+    if (/DESCRI[CÇ][AÃ]O/i.test(line.text) && /QUANT|QTDE?/i.test(line.text) && /VALOR|UNIT/i.test(line.text)) {
+      inTable = true;
+      continue;
+    }
+    if (!inTable) continue;
+
+    const row = line.text.match(TABLE_ITEM);
+    if (row) {
+      items.push({
+        description: row[1].trim(),
+        quantity: parseBrazilianNumber(row[2]),
+        unitPrice: parseBrazilianNumber(row[3]),
+        total: parseBrazilianNumber(row[4]),
+      });
+    } else if (items.length > 0) {
+      inTable = false;
+    }
+  }
+
+  return items.filter(item => item.quantity > 0 && Number.isFinite(item.unitPrice));
+}
+
+export function extractInvoiceFromText(lines: PdfTextLine[]): InvoiceExtraction {
+  const fields = emptyExtraction();
+  const confidence: Record<string, number> = Object.fromEntries(extractedFieldNames.map(name => [name, 0]));
+  const recipient = findSection(lines, RECIPIENT_SECTION, SECTION_END, 12);
+
+  const document = extractDocument(lines, recipient);
+  if (document) {
+    fields.clientDocument = document.value;
+    confidence.clientDocument = document.confidence;
+  }
+
+  const name = recipient && findLabelled(lines, NAME_LABELS, TEXT, recipient[0], recipient[1]);
+  if (name && !DOCUMENT.test(name.value)) {
+    fields.clientName = name.value.trim();
+    confidence.clientName = name.confidence;
+  }
+
+  // O número fica no cabeçalho; abaixo dele "Nº" costuma ser do endereço
+  const headerNumber = findLabelled(lines, NUMBER_LABELS, NUMBER, 0, recipient?.[0]);
+  const anyNumber = headerNumber ?? findLabelled(lines, NUMBER_LABELS.slice(0, 1), NUMBER);
+  const number = headerNumber ?? (anyNumber && { ...anyNumber, confidence: anyNumber.confidence * 0.8 });
+  if (number) {
+    fields.number = onlyDigits(number.value).replace(/^0+(?=\d)/, "");
+    confidence.number = number.confidence;
+  }
+
+  const issueDate = findLabelled(lines, ISSUE_DATE_LABELS, DATE);
+  const issueValue = issueDate && parseBrazilianDate(issueDate.value);
+  if (issueValue) {
+    fields.issueDate = issueValue;
+    confidence.issueDate = issueDate.confidence;
+  } else {
+    const loose = lines.map(line => line.text.match(DATE)?.[0]).find(Boolean);
+    const looseValue = loose && parseBrazilianDate(loose);
+    if (looseValue) {
+      fields.issueDate = looseValue;
+      confidence.issueDate = 0.5;
+    }
+  }
+
+  const dueDate = findLabelled(lines, DUE_DATE_LABELS, DATE);
+  const dueValue = dueDate && parseBrazilianDate(dueDate.value);
+  if (dueValue) {
+    fields.dueDate = dueValue;
+    confidence.dueDate = dueDate.confidence;
+  }
+
+  const amount = findLabelled(lines, AMOUNT_LABELS, MONEY);
+  if (amount) {
+    const value = parseBrazilianNumber(amount.value);
+    if (value > 0) {
+      fields.amount = value;
+      confidence.amount = amount.confidence;
+    }
+  }
+
+  fields.items = extractItems(lines);
+  if (fields.items.length > 0) {
+    const itemsTotal = fields.items.reduce((sum, item) => sum + (item.total ?? item.quantity * item.unitPrice), 0);
+    // Itens que fecham com o total da nota confirmam a leitura da tabela
+    const matchesAmount = fields.amount !== null && Math.abs(itemsTotal - fields.amount) < 0.01;
+    confidence.items = matchesAmount ? 0.9 : 0.6;
+  }
+
+  const description = findSection(lines, DESCRIPTION_SECTION, DESCRIPTION_END, 30);
+  const descriptionText = description
+    ? lines.slice(description[0] + 1, description[1]).map(line => line.text.replace(/\s+/g, " ")).join(" ").trim()
+    : "";
+  if (descriptionText) {
+    fields.description = descriptionText;
+    confidence.description = 0.8;
+  } else if (fields.items.length > 0) {
+    fields.description = fields.items.map(item => item.description).join("; ").substring(0, 200);
+    confidence.description = 0.6;
+  }
+
+  return { fields, confidence, raw: { lines: lines.map(line => line.text) } };
+}
+
+export class RuleBasedInvoiceExtractor implements InvoiceExtractor {
+  readonly name = "rules";
+
+  async extract(pdf: Buffer): Promise<InvoiceExtraction> {
+    let lines: PdfTextLine[];
+    try {
+      lines = extractPdfText(pdf).flat();
+    } catch (error) {
+      throw new ExtractionError(`Could not read PDF text: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (lines.length === 0) {
+      // PDF digitalizado (só imagem): sem camada de texto não há o que ler por regras
+      throw new ExtractionError("PDF has no text layer");
+    }
+
+    return extractInvoiceFromText(lines);
+  }
+}
@@ -0,0 +1,179 @@
+// Leitura de planilhas para importação em lote: CSV (qualquer separador usual) e XLSX.
+// Células de XLSX mantêm números como number; datas do Excel chegam como número serial.
+import { parse } from "csv-parse/sync";
+import { inflateRawSync } from "zlib";
+import { parseXml, findElement, findElements, elementText, XmlParseError, type XmlElement } from "./xml";
+
+export type SpreadsheetValue = string | number | boolean | null;
+
+export class SpreadsheetError extends Error {}
+
+export const MAX_SPREADSHEET_BYTES = 10 * 1024 * 1024;
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+
+export function isXlsx(data: Buffer): boolean {
+  return ZIP_SIGNATURE.every((byte, i) => data[i] === byte);
+}
+
+// Linhas na ordem da planilha, inclusive as vazias, para que os erros citem a linha certa
+export function readSpreadsheet(data: Buffer): SpreadsheetValue[][] {
+  return isXlsx(data) ? readXlsx(data) : readCsv(data);
+}
+
+// Planilhas exportadas pelo Excel em português costumam vir em Windows-1252 e com ";"
+function readCsv(data: Buffer): SpreadsheetValue[][] {
+  let text = data.toString("utf8");
+  if (text.includes("\uFFFD")) text = data.toString("latin1");
+  text = text.replace(/^\uFEFF/, "");
+
+  const header = text.substring(0, text.search(/\r?\n|$/));
+  const delimiter = [";", ",", "\t"]
+    .map(candidate => ({ candidate, count: header.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  try {
+    return parse(text, { delimiter, relax_column_count: true, trim: true }) as string[][];
+  } catch (error) {
+    throw new SpreadsheetError(`Invalid CSV: ${(error as Error).message}`);
+  }
+}
+
+// Teto do conteúdo descompactado somando todas as entradas do ZIP
+const MAX_UNCOMPRESSED_BYTES = 100 * 1024 * 1024;
+
+// Entradas de um arquivo ZIP (store ou deflate), suficiente para o pacote OOXML.
+// Offsets e tamanhos vêm do próprio arquivo, então tudo é conferido antes de ler.
+function unzip(data: Buffer): Map<string, Buffer> {
+  const corrupt = () => new SpreadsheetError("Invalid XLSX: corrupt ZIP file");
+  const u16 = (offset: number) => {
+    if (offset < 0 || offset + 2 > data.length) throw corrupt();
+    return data.readUInt16LE(offset);
+  };
+  const u32 = (offset: number) => {
+    if (offset < 0 || offset + 4 > data.length) throw corrupt();
+    return data.readUInt32LE(offset);
+  };
+  const slice = (start: number, length: number) => {
+    if (start < 0 || start + length > data.length) throw corrupt();
+    return data.subarray(start, start + length);
+  };
+
+  let end = data.length - 22;
+  while (end >= 0 && data.readUInt32LE(end) !== 0x06054b50) end--;
+  if (end < 0) throw new SpreadsheetError("Invalid XLSX: ZIP directory not found");
+
+  const entries = new Map<string, Buffer>();
+  const count = u16(end + 10);
+  let offset = u32(end + 16);
+  let remaining = MAX_UNCOMPRESSED_BYTES;
+
+  for (let i = 0; i < count; i++) {
+    if (u32(offset) !== 0x02014b50) throw new SpreadsheetError("Invalid XLSX: corrupt ZIP directory");
+    const method = u16(offset + 10);
+    const compressedSize = u32(offset + 20);
+    const size = u32(offset + 24);
+    const nameLength = u16(offset + 28);
+    const extraLength = u16(offset + 30);
+    const commentLength = u16(offset + 32);
+    const localOffset = u32(offset + 42);
+    const name = slice(offset + 46, nameLength).toString("utf8");
+
+    if (size > remaining) throw new SpreadsheetError("Invalid XLSX: uncompressed content is too large");
+    const start = localOffset + 30 + u16(localOffset + 26) + u16(localOffset + 28);
+    const content = slice(start, compressedSize);
+    let inflated: Buffer;
+    if (method === 0) {
+      inflated = content;
+    } else if (method === 8) {
+      // O tamanho declarado pode mentir: o limite vale também para a saída do inflate
+      try {
+        inflated = inflateRawSync(content, { maxOutputLength: Math.max(size, 1) });
+      } catch {
+        throw new SpreadsheetError(`Invalid XLSX: could not decompress ${name}`);
+      }
+    } else {
+      throw new SpreadsheetError(`Invalid XLSX: unsupported compression method ${method}`);
+    }
+    remaining -= inflated.length;
+    entries.set(name, inflated);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+function readXml(entries: Map<string, Buffer>, name: string): XmlElement | undefined {
+  const entry = entries.get(name);
+  if (!entry) return undefined;
+  try {
+    return parseXml(entry.toString("utf8"));
+  } catch (error) {
+    if (error instanceof XmlParseError) throw new SpreadsheetError(`Invalid XLSX: ${name}: ${error.message}`);
+    throw error;
+  }
+}
+
+// Texto de uma string rica (<si> ou <is>): concatena todos os <t>
+function richText(element: XmlElement): string {
+  return findElements(element, "t").map(t => t.text).join("");
+}
+
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? "";
+  return letters.split("").reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+// Apenas a primeira aba da pasta de trabalho é importada
+function readXlsx(data: Buffer): SpreadsheetValue[][] {
+  const entries = unzip(data);
+  const workbook = readXml(entries, "xl/workbook.xml");
+  const sheet = findElement(workbook, "sheet");
+  if (!sheet) throw new SpreadsheetError("Invalid XLSX: workbook has no sheets");
+
+  const relationships = readXml(entries, "xl/_rels/workbook.xml.rels");
+  const target = findElements(relationships, "Relationship").find(rel => rel.attributes.Id === sheet.attributes.id)?.attributes.Target;
+  if (!target) throw new SpreadsheetError("Invalid XLSX: first sheet not found");
+  const sheetPath = target.startsWith("/") ? target.substring(1) : `xl/${target}`;
+
+  const sharedStrings = findElements(readXml(entries, "xl/sharedStrings.xml"), "si").map(richText);
+  const worksheet = readXml(entries, sheetPath);
+  if (!worksheet) throw new SpreadsheetError("Invalid XLSX: first sheet not found");
+
+  const rows: SpreadsheetValue[][] = [];
+  for (const row of findElements(worksheet, "row")) {
+    const values: SpreadsheetValue[] = [];
+    findElements(row, "c").forEach((cell, position) => {
+      const index = cell.attributes.r ? columnIndex(cell.attributes.r) : position;
+      const raw = elementText(cell, "v");
+      let value: SpreadsheetValue = null;
+
+      switch (cell.attributes.t) {
+        case "s":
+          value = raw !== undefined ? sharedStrings[parseInt(raw)] ?? null : null;
+          break;
+        case "inlineStr":
+          value = richText(cell);
+          break;
+        case "b":
+          value = raw === "1";
+          break;
+        case "str":
+        case "e":
+          value = raw ?? null;
+          break;
+        default:
+          value = raw !== undefined ? Number(raw) : null;
+      }
+
+      while (values.length < index) values.push(null);
+      values[index] = typeof value === "string" ? value.trim() : value;
+    });
+
+    // Linhas vazias não aparecem no XML; "r" guarda o número real da linha
+    const index = row.attributes.r ? parseInt(row.attributes.r) - 1 : rows.length;
+    while (rows.length < index) rows.push([]);
+    rows[index] = values;
+  }
+  return rows;
+}
@@ -0,0 +1,113 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+// TOTP (RFC 6238) sobre HOTP (RFC 4226), compatível com Google Authenticator e similares
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TIME_STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}"`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+function hotp(key: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac("sha1", key).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** CODE_DIGITS;
+
+  return String(binary).padStart(CODE_DIGITS, "0");
+}
+
+export function getTimeStep(timestamp: number = Date.now()): number {
+  return Math.floor(timestamp / 1000 / TIME_STEP_SECONDS);
+}
+
+export function generateTotp(secret: string, timestamp: number = Date.now()): string {
+  return hotp(base32Decode(secret), getTimeStep(timestamp));
+}
+
+// Retorna o passo de tempo aceito (para impedir reuso do mesmo código) ou null
+export function verifyTotp(secret: string, code: string, timestamp: number = Date.now(), window = 1): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = getTimeStep(timestamp);
+
+  for (let drift = -window; drift <= window; drift++) {
+    const step = currentStep + drift;
+    const expected = Buffer.from(hotp(key, step));
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+export function buildOtpauthUri(secret: string, accountName: string, issuer = "Delta Silk Print"): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(CODE_DIGITS),
+    period: String(TIME_STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.substring(0, 5)}-${hex.substring(5)}`;
+  });
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/\s/g, "");
+}
@@ -0,0 +1,219 @@
+// XLSX gerado em streaming: a aba é comprimida à medida que as linhas chegam. As entradas do
+// ZIP usam descritor de dados, então tamanhos e CRC só são gravados depois do conteúdo.
+import { once } from "events";
+import { createDeflateRaw, deflateRawSync } from "zlib";
+import type { Writable } from "stream";
+
+export type XlsxColumnType = "text" | "money" | "date";
+
+export interface XlsxColumn {
+  header: string;
+  type: XlsxColumnType;
+}
+
+interface ZipEntry {
+  name: Buffer;
+  offset: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+}
+
+// Espera a resposta esvaziar o buffer; se o cliente desconectar, "close" libera a espera
+export function drained(out: Writable): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      out.off("drain", done);
+      out.off("close", done);
+      resolve();
+    };
+    out.on("drain", done);
+    out.on("close", done);
+  });
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Datas do Excel são dias desde 30/12/1899
+function excelSerial(date: string): number {
+  const [year, month, day] = date.substring(0, 10).split("-").map(Number);
+  return (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86_400_000;
+}
+
+// Estilos 1 e 2: moeda com duas casas e data; o Excel exibe conforme a localidade (1.234,56)
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy"/></numFmts><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border/></borders><cellStyleXfs count="1"><xf/></cellStyleXfs><cellXfs count="4"><xf/><xf numFmtId="4" applyNumberFormat="1"/><xf numFmtId="164" applyNumberFormat="1"/><xf fontId="1" applyFont="1"/></cellXfs></styleSheet>`;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+export class XlsxStreamWriter {
+  private entries: ZipEntry[] = [];
+  private offset = 0;
+  private rowCount = 0;
+  private sheet?: { deflate: ReturnType<typeof createDeflateRaw>; entry: ZipEntry; done: Promise<unknown> };
+
+  constructor(private out: Writable, private columns: XlsxColumn[], private sheetName = "Planilha1") {}
+
+  private async emit(data: Buffer): Promise<void> {
+    this.offset += data.length;
+    if (this.out.destroyed) return;
+    if (!this.out.write(data)) await drained(this.out);
+  }
+
+  // Cabeçalho local com flag 0x08 (tamanhos no descritor) e 0x800 (nomes em UTF-8)
+  private async beginEntry(name: string): Promise<ZipEntry> {
+    const entry: ZipEntry = { name: Buffer.from(name, "utf8"), offset: this.offset, crc: 0, compressedSize: 0, size: 0 };
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(0x0808, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(0x0021, 12); // 01/01/1980: arquivo determinístico
+    header.writeUInt16LE(entry.name.length, 26);
+    await this.emit(Buffer.concat([header, entry.name]));
+    this.entries.push(entry);
+    return entry;
+  }
+
+  private async endEntry(entry: ZipEntry): Promise<void> {
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.emit(descriptor);
+  }
+
+  private async addFile(name: string, content: string): Promise<void> {
+    const entry = await this.beginEntry(name);
+    const data = Buffer.from(content, "utf8");
+    const compressed = deflateRawSync(data);
+    Object.assign(entry, { crc: crc32(data), size: data.length, compressedSize: compressed.length });
+    await this.emit(compressed);
+    await this.endEntry(entry);
+  }
+
+  private async writeSheet(xml: string): Promise<void> {
+    const { deflate, entry } = this.sheet!;
+    const data = Buffer.from(xml, "utf8");
+    entry.crc = crc32(data, entry.crc);
+    entry.size += data.length;
+    if (!deflate.write(data)) await once(deflate, "drain");
+  }
+
+  async start(): Promise<void> {
+    await this.addFile("[Content_Types].xml", CONTENT_TYPES);
+    await this.addFile("_rels/.rels", ROOT_RELS);
+    await this.addFile("xl/workbook.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(this.sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+    await this.addFile("xl/_rels/workbook.xml.rels", WORKBOOK_RELS);
+    await this.addFile("xl/styles.xml", STYLES);
+
+    const entry = await this.beginEntry("xl/worksheets/sheet1.xml");
+    const deflate = createDeflateRaw();
+    deflate.on("data", (chunk: Buffer) => {
+      entry.compressedSize += chunk.length;
+      this.offset += chunk.length;
+      if (!this.out.destroyed && !this.out.write(chunk)) {
+        deflate.pause();
+        drained(this.out).then(() => deflate.resume());
+      }
+    });
+    this.sheet = { deflate, entry, done: once(deflate, "end") };
+
+    await this.writeSheet(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews><sheetData>`);
+    await this.writeRow(this.columns.map(column => ({ value: column.header, style: 3 })));
+  }
+
+  private async writeRow(cells: { value: string | number | null; style?: number }[]): Promise<void> {
+    const row = ++this.rowCount;
+    const xml = cells.map(({ value, style }, index) => {
+      if (value === null || value === "") return "";
+      const ref = `${columnName(index)}${row}`;
+      const styleAttribute = style ? ` s="${style}"` : "";
+      return typeof value === "number"
+        ? `<c r="${ref}"${styleAttribute}><v>${value}</v></c>`
+        : `<c r="${ref}"${styleAttribute} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+    }).join("");
+    await this.writeSheet(`<row r="${row}">${xml}</row>`);
+  }
+
+  // Valores na ordem das colunas: moeda como number, data como "aaaa-mm-dd"
+  async addRow(values: (string | number | null)[]): Promise<void> {
+    await this.writeRow(values.map((value, index) => {
+      const type = this.columns[index]?.type ?? "text";
+      if (value === null) return { value };
+      if (type === "money") return { value: Number(value), style: 1 };
+      if (type === "date") return { value: excelSerial(String(value)), style: 2 };
+      return { value: String(value) };
+    }));
+  }
+
+  async finish(): Promise<void> {
+    const { deflate, entry, done } = this.sheet!;
+    await this.writeSheet("</sheetData></worksheet>");
+    deflate.end();
+    await done;
+    await this.endEntry(entry);
+
+    const directoryOffset = this.offset;
+    for (const file of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(0x0808, 8);
+      header.writeUInt16LE(8, 10);
+      header.writeUInt16LE(0x0021, 14);
+      header.writeUInt32LE(file.crc, 16);
+      header.writeUInt32LE(file.compressedSize, 20);
+      header.writeUInt32LE(file.size, 24);
+      header.writeUInt16LE(file.name.length, 28);
+      header.writeUInt32LE(file.offset, 42);
+      await this.emit(Buffer.concat([header, file.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.emit(end);
+  }
+}
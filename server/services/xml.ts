@@ -0,0 +1,118 @@
+// Parser XML mínimo para documentos fiscais: elementos, atributos, texto, CDATA e entidades.
+// Prefixos de namespace são descartados; as buscas usam o nome local (ex.: "infNFe").
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+export class XmlParseError extends Error {}
+
+const entities: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'" };
+
+function decodeCodePoint(entity: string, codePoint: number): string {
+  try {
+    return String.fromCodePoint(codePoint);
+  } catch {
+    throw new XmlParseError(`Invalid character reference &${entity};`);
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) return decodeCodePoint(entity, parseInt(entity.substring(2), 16));
+    if (entity.startsWith("#")) return decodeCodePoint(entity, parseInt(entity.substring(1), 10));
+    return entities[entity] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  return name.substring(name.indexOf(":") + 1);
+}
+
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: "#document", attributes: {}, children: [], text: "" };
+  const stack: XmlElement[] = [root];
+  let position = 0;
+
+  while (position < source.length) {
+    const open = source.indexOf("<", position);
+    const textEnd = open === -1 ? source.length : open;
+    if (textEnd > position) {
+      stack[stack.length - 1].text += decodeEntities(source.substring(position, textEnd));
+    }
+    if (open === -1) break;
+
+    if (source.startsWith("<!--", open)) {
+      const end = source.indexOf("-->", open);
+      if (end === -1) throw new XmlParseError("Unterminated comment");
+      position = end + 3;
+    } else if (source.startsWith("<![CDATA[", open)) {
+      const end = source.indexOf("]]>", open);
+      if (end === -1) throw new XmlParseError("Unterminated CDATA section");
+      stack[stack.length - 1].text += source.substring(open + 9, end);
+      position = end + 3;
+    } else if (source.startsWith("<?", open) || source.startsWith("<!", open)) {
+      const end = source.indexOf(">", open);
+      if (end === -1) throw new XmlParseError("Unterminated declaration");
+      position = end + 1;
+    } else if (source.startsWith("</", open)) {
+      const end = source.indexOf(">", open);
+      if (end === -1) throw new XmlParseError("Unterminated closing tag");
+      const name = localName(source.substring(open + 2, end).trim());
+      const element = stack.pop();
+      if (!element || element === root || element.name !== name) {
+        throw new XmlParseError(`Unexpected closing tag </${name}>`);
+      }
+      position = end + 1;
+    } else {
+      const tag = source.substring(open).match(/^<([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/);
+      if (!tag) throw new XmlParseError(`Malformed tag at position ${open}`);
+
+      const attributes: Record<string, string> = {};
+      for (const attribute of Array.from(tag[2].matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g))) {
+        attributes[localName(attribute[1])] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+
+      const element: XmlElement = { name: localName(tag[1]), attributes, children: [], text: "" };
+      stack[stack.length - 1].children.push(element);
+      if (!tag[3]) stack.push(element);
+      position = open + tag[0].length;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new XmlParseError(`Unclosed tag <${stack[stack.length - 1].name}>`);
+  }
+  const [document] = root.children;
+  if (!document) throw new XmlParseError("Document has no root element");
+  return document;
+}
+
+// Primeiro descendente (em profundidade) com o nome local informado
+export function findElement(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  if (!element) return undefined;
+  for (const child of element.children) {
+    if (child.name === name) return child;
+    const nested = findElement(child, name);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+export function findElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  if (!element) return [];
+  return element.children.flatMap(child => child.name === name ? [child] : findElements(child, name));
+}
+
+// Texto de um caminho de filhos diretos, ex.: elementText(ide, "nNF")
+export function elementText(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  let current = element;
+  for (const name of path) {
+    current = current?.children.find(child => child.name === name);
+  }
+  const text = current?.text.trim();
+  return text ? text : undefined;
+}
@@ -1,8 +1,22 @@
-import { users, clients, invoices, type User, type InsertUser, type Client, type InsertClient, type Invoice, type InsertInvoice, type InvoiceWithClient, type ClientWithInvoices } from "@shared/schema";
-import { eq, desc, asc, sql, and, or, gte, lte, like } from "drizzle-orm";
+import { users, auditLog, appSettings, invitations, loginAttempts, clients, products, quotes, quoteRevisions, invoices, productionOrders, productionStageEvents, attachments, importJobs, payments, pixCharges, pixEvents, type User, type InsertUser, type Invitation, type InsertInvitation, type Client, type InsertClient, type Product, type InsertProduct, type Quote, type InsertQuote, type QuoteRevision, type QuoteStatus, type QuoteWithClient, type QuoteConversionSummary, type ProductionOrder, type InsertProductionOrder, type ProductionStage, type ProductionStageEvent, type ProductionOrderWithDetails, type ProductionBoardColumn, productionStages, type Attachment, type AttachmentKind, type AttachmentOwnerType, type ImportJob, type Invoice, type InvoiceItem, type InsertInvoice, type Payment, type InsertPayment, type PixCharge, type InsertPixCharge, type PixEvent, type AuditLogEntry, type InvoiceWithClient, type ClientWithInvoices, type ClientAgingSummary, type ClientMergeSummary, type FiscalDocument, type InvoiceListQuery, type ClientListQuery, type PaymentListQuery, type PaymentWithInvoice, type InvoicePage, type Page, type PageMeta, invoiceSortFields, clientSortFields } from "@shared/schema";
+import { eq, desc, asc, sql, and, or, ne, gt, gte, lt, lte, like, ilike, inArray, isNull, type SQL } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { db } from "./config/supabase";
+import { calculateDueDate, getAgingBucket, getDaysOverdue, isDueDateFromTerms } from "./services/payment-terms";
+import { isValidPaymentTerms } from "@shared/payment-terms";
+import { parseInvoiceItems, resolveInvoiceTotals } from "./services/invoice-totals";
+import { applyCatalogPrices } from "./services/product-pricing";
+import { canTransitionQuote, isQuoteExpired, buildQuoteSnapshot } from "./services/quotes";
+import { format } from "date-fns";
+import { buildStorageKey, sha256, validateAttachment, sanitizeFileName } from "./services/attachments";
+import { getAttachmentStorage } from "./services/attachment-storage";
+import { buildInvoiceFromFiscalDocument } from "./services/fiscal-xml";
+import { CLIENT_MATCH_THRESHOLD, findClientMatches } from "./services/client-matching";
+import { formatDocument, onlyDigits } from "@shared/documents";
+import type { PixWebhookEvent } from "./services/pix-webhook";
+import type { InvoiceImportRow } from "./services/bulk-import";
 
 const DATABASE_URL = process.env.DATABASE_URL;
 if (!DATABASE_URL) {
@@ -11,31 +25,320 @@ if (!DATABASE_URL) {
 
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Raised when a write is well-formed but conflicts with the current state of the data
+export class ConflictError extends Error {}
+
+// Raised when a list cursor is malformed or was issued for another sort order
+export class InvalidCursorError extends Error {}
+
+export interface PixConfirmation {
+  amount?: string;
+  paidAt: string;
+  reference?: string;
+  recordedBy?: number | null;
+}
+
+// Valores monetários são tratados em centavos para evitar erros de ponto flutuante
+function toCents(value: string | number | null | undefined): number {
+  return Math.round(parseFloat(value?.toString() || '0') * 100);
+}
+
+function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export const auditEntities = ["attachment", "client", "invoice", "payment", "product", "production_order", "quote", "user"] as const;
+type AuditEntity = typeof auditEntities[number];
+type AuditAction = "create" | "update" | "delete" | "restore" | "merge";
+
+export interface QuoteFilters {
+  status?: string;
+  clientId?: number;
+}
+
+export interface QuoteConversion {
+  number: string;
+  issueDate?: string;
+  status?: string;
+}
+
+export interface ProductionOrderFilters {
+  stage?: string;
+  assignedTo?: number;
+}
+
+export interface NewAttachment {
+  ownerType: AttachmentOwnerType;
+  ownerId: number | null;
+  kind: AttachmentKind;
+  fileName: string;
+  data: Buffer;
+}
+
+// Conteúdo já gravado no backend, pronto para virar um registro de anexo
+interface StoredAttachmentContent {
+  mimeType: string;
+  size: number;
+  sha256: string;
+  storageBackend: string;
+  storageKey: string;
+}
+
+export interface AuditFilters {
+  entity?: string;
+  entityId?: number;
+  actorId?: number;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// Campos sensíveis nunca vão para o log; apenas a alteração é registrada
+const REDACTED_FIELDS = new Set(["password", "totpSecret", "totpLastStep", "recoveryCodes"]);
+
+function diffRecords(before: object | null, after: object | null): Record<string, { from: unknown; to: unknown }> {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  
+  for (const key of Array.from(new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]))) {
+    const from = beforeRecord[key] ?? null;
+    const to = afterRecord[key] ?? null;
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+    
+    changes[key] = REDACTED_FIELDS.has(key)
+      ? { from: from === null ? null : "[redacted]", to: to === null ? null : "[redacted]" }
+      : { from, to };
+  }
+  
+  return changes;
+}
+
+// Escapa os curingas do LIKE em buscas de texto livre
+function likePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+const invoiceSortColumns: Record<typeof invoiceSortFields[number], AnyPgColumn> = {
+  id: invoices.id,
+  number: invoices.number,
+  clientId: invoices.clientId,
+  clientName: clients.name,
+  amount: invoices.amount,
+  subtotal: invoices.subtotal,
+  discountTotal: invoices.discountTotal,
+  taxTotal: invoices.taxTotal,
+  balanceDue: invoices.balanceDue,
+  issueDate: invoices.issueDate,
+  dueDate: invoices.dueDate,
+  paymentTerms: invoices.paymentTerms,
+  status: invoices.status,
+  quoteId: invoices.quoteId,
+  accessKey: invoices.accessKey,
+  deletedAt: invoices.deletedAt,
+};
+
+const clientSortColumns: Record<typeof clientSortFields[number], AnyPgColumn> = {
+  id: clients.id,
+  name: clients.name,
+  subName: clients.subName,
+  document: clients.document,
+  stateRegistration: clients.stateRegistration,
+  paymentTerms: clients.paymentTerms,
+  deletedAt: clients.deletedAt,
+};
+
+// Ordenação e paginação compartilhadas pelas listagens. O cursor guarda o valor da coluna
+// ordenada e o id da última linha (keyset); nulos ficam sempre no fim e o id desempata.
+type ListOrder = { sort: string; column: AnyPgColumn; id: AnyPgColumn; descending: boolean };
+type ListCursor = { value: unknown; id: number };
+
+function listOrder<F extends string>(sort: string, columns: Record<F, AnyPgColumn>, id: AnyPgColumn): ListOrder {
+  const field = sort.replace(/^-/, "") as F;
+  return { sort, column: columns[field], id, descending: sort.startsWith("-") };
+}
+
+function orderByList({ column, id, descending }: ListOrder): SQL[] {
+  return descending
+    ? [sql`${column} desc nulls last`, desc(id)]
+    : [sql`${column} asc nulls last`, asc(id)];
+}
+
+function encodeCursor(sort: string, cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([sort, cursor.value, cursor.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string, sort: string): ListCursor {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new InvalidCursorError("Invalid cursor");
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 3 || !Number.isInteger(decoded[2])) {
+    throw new InvalidCursorError("Invalid cursor");
+  }
+  if (decoded[0] !== sort) {
+    throw new InvalidCursorError("Cursor was issued for a different sort order");
+  }
+  return { value: decoded[1], id: decoded[2] };
+}
+
+// Linhas que vêm depois do cursor na ordem da listagem
+function afterCursor({ column, id, descending }: ListOrder, cursor: ListCursor): SQL {
+  const beyond = sql.raw(descending ? "<" : ">");
+  if (cursor.value === null) {
+    return sql`(${column} is null and ${id} ${beyond} ${cursor.id})`;
+  }
+  return sql`(${column} ${beyond} ${cursor.value} or (${column} = ${cursor.value} and ${id} ${beyond} ${cursor.id}) or ${column} is null)`;
+}
+
+function invoiceCursor(sort: string, invoice: InvoiceWithClient): ListCursor {
+  const field = sort.replace(/^-/, "");
+  return {
+    value: field === "clientName" ? invoice.client?.name ?? null : invoice[field as keyof Invoice] ?? null,
+    id: invoice.id,
+  };
+}
+
+// Exportações leem o banco em lotes deste tamanho
+const STREAM_BATCH_SIZE = 500;
+
+// As consultas buscam limit + 1 linhas: a sobra indica que existe uma próxima página
+function toPage<T>(rows: T[], query: { limit: number; offset?: number; cursor?: string }, order: ListOrder, total: number, cursorOf: (row: T) => ListCursor): Page<T> {
+  const data = rows.slice(0, query.limit);
+  const meta: PageMeta = {
+    total,
+    limit: query.limit,
+    offset: query.cursor ? null : query.offset ?? 0,
+    sort: order.sort,
+    nextCursor: rows.length > query.limit ? encodeCursor(order.sort, cursorOf(data[data.length - 1])) : null,
+  };
+  return { data, meta };
+}
+
 export interface IStorage {
   // Auth
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: InsertUser, actorId?: number | null): Promise<User>;
+  getUsers(): Promise<User[]>;
+  updateUser(id: number, user: Partial<InsertUser>, actorId?: number | null): Promise<User | undefined>;
+  getUserCount(): Promise<number>;
+  createBootstrapAdmin(user: Omit<InsertUser, "role">): Promise<User | undefined>;
+  useTotpStep(userId: number, step: number): Promise<boolean>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  
+  // Settings
+  getSetting<T>(key: string): Promise<T | undefined>;
+  setSetting(key: string, value: unknown, updatedBy?: number): Promise<void>;
+  
+  // Login throttling
+  getLoginLockout(keys: string[]): Promise<{ key: string; retryAfterSeconds: number } | undefined>;
+  recordLoginFailure(key: string): Promise<number>;
+  lockLogin(key: string, minutes: number): Promise<void>;
+  clearLoginFailures(key: string): Promise<void>;
+  
+  // Invitations
+  getInvitations(): Promise<Invitation[]>;
+  createInvitation(invitation: InsertInvitation): Promise<Invitation>;
+  revokeInvitation(id: number): Promise<boolean>;
+  createUserFromInvitation(tokenHash: string, user: Omit<InsertUser, "role">): Promise<User | undefined>;
   
   // Clients
-  getClients(): Promise<Client[]>;
+  getClients(includeDeleted?: boolean, query?: string): Promise<Client[]>;
+  listClients(query: ClientListQuery, includeDeleted?: boolean): Promise<Page<Client>>;
   getClient(id: number): Promise<Client | undefined>;
   getClientWithInvoices(id: number): Promise<ClientWithInvoices | undefined>;
-  createClient(client: InsertClient): Promise<Client>;
-  updateClient(id: number, client: Partial<InsertClient>): Promise<Client | undefined>;
-  deleteClient(id: number): Promise<boolean>;
+  createClient(client: InsertClient, actorId?: number | null): Promise<Client>;
+  updateClient(id: number, client: Partial<InsertClient>, actorId?: number | null): Promise<Client | undefined>;
+  deleteClient(id: number, actorId?: number | null): Promise<boolean>;
+  restoreClient(id: number, actorId?: number | null): Promise<Client | undefined>;
+  mergeClients(targetId: number, sourceId: number, actorId?: number | null): Promise<ClientMergeSummary | undefined>;
+  
+  // Products
+  getProducts(includeInactive?: boolean): Promise<Product[]>;
+  getProduct(id: number): Promise<Product | undefined>;
+  createProduct(product: InsertProduct, actorId?: number | null): Promise<Product>;
+  updateProduct(id: number, product: Partial<InsertProduct>, actorId?: number | null): Promise<Product | undefined>;
+  deactivateProduct(id: number, actorId?: number | null): Promise<boolean>;
   
   // Invoices
-  getInvoices(): Promise<InvoiceWithClient[]>;
+  getInvoices(includeDeleted?: boolean): Promise<InvoiceWithClient[]>;
+  listInvoices(query: InvoiceListQuery, includeDeleted?: boolean): Promise<InvoicePage>;
+  streamInvoices(query: InvoiceListQuery, includeDeleted?: boolean): AsyncGenerator<InvoiceWithClient[]>;
   getInvoice(id: number): Promise<InvoiceWithClient | undefined>;
-  getInvoicesByClient(clientId: number): Promise<Invoice[]>;
-  getInvoicesByStatus(status: string): Promise<InvoiceWithClient[]>;
   getOverdueInvoices(): Promise<InvoiceWithClient[]>;
-  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
-  updateInvoice(id: number, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined>;
-  deleteInvoice(id: number): Promise<boolean>;
+  getOverdueAging(): Promise<ClientAgingSummary[]>;
+  markOverdueInvoices(today?: Date): Promise<number>;
+  createInvoice(invoice: InsertInvoice, actorId?: number | null): Promise<Invoice>;
+  updateInvoice(id: number, invoice: Partial<InsertInvoice>, actorId?: number | null): Promise<Invoice | undefined>;
+  deleteInvoice(id: number, actorId?: number | null): Promise<boolean>;
+  restoreInvoice(id: number, actorId?: number | null): Promise<Invoice | undefined>;
   
-
+  // Quotes
+  getQuotes(filters?: QuoteFilters): Promise<QuoteWithClient[]>;
+  getQuote(id: number): Promise<QuoteWithClient | undefined>;
+  getQuoteRevisions(quoteId: number): Promise<QuoteRevision[]>;
+  createQuote(quote: InsertQuote, actorId?: number | null): Promise<Quote>;
+  updateQuote(id: number, quote: Partial<InsertQuote>, actorId?: number | null): Promise<Quote | undefined>;
+  updateQuoteStatus(id: number, status: QuoteStatus, actorId?: number | null): Promise<Quote | undefined>;
+  markExpiredQuotes(today?: Date): Promise<number>;
+  convertQuote(id: number, conversion: QuoteConversion, actorId?: number | null): Promise<Invoice | undefined>;
+  getQuoteConversionStats(): Promise<QuoteConversionSummary[]>;
+  
+  // Production orders
+  getProductionOrders(filters?: ProductionOrderFilters): Promise<ProductionOrderWithDetails[]>;
+  getProductionOrder(id: number): Promise<ProductionOrderWithDetails | undefined>;
+  getProductionStageEvents(orderId: number): Promise<ProductionStageEvent[]>;
+  createProductionOrder(order: InsertProductionOrder, actorId?: number | null): Promise<ProductionOrder | undefined>;
+  updateProductionOrder(id: number, order: Partial<InsertProductionOrder>, actorId?: number | null): Promise<ProductionOrder | undefined>;
+  moveProductionOrder(id: number, stage: ProductionStage, note?: string, actorId?: number | null): Promise<ProductionOrder | undefined>;
+  getProductionBoard(): Promise<ProductionBoardColumn[]>;
+  
+  // Attachments
+  getAttachments(ownerType: AttachmentOwnerType, ownerId: number): Promise<Attachment[]>;
+  getAttachment(id: number): Promise<Attachment | undefined>;
+  getAttachmentContent(attachment: Attachment): Promise<Buffer>;
+  attachmentOwnerExists(ownerType: AttachmentOwnerType, ownerId: number): Promise<boolean>;
+  createAttachment(attachment: NewAttachment, actorId?: number | null): Promise<{ attachment: Attachment; duplicate: boolean }>;
+  deleteAttachment(id: number, actorId?: number | null): Promise<boolean>;
+  setClientLogo(clientId: number, attachmentId: number, actorId?: number | null): Promise<Client | undefined>;
+  
+  // Import jobs
+  getImportJobs(status?: string): Promise<ImportJob[]>;
+  getImportJob(id: number): Promise<ImportJob | undefined>;
+  createImportJob(job: typeof importJobs.$inferInsert): Promise<ImportJob>;
+  updateImportJob(id: number, changes: Partial<typeof importJobs.$inferInsert>): Promise<ImportJob | undefined>;
+  commitImportJob(id: number, invoice: InsertInvoice, actorId?: number | null): Promise<Invoice | undefined>;
+  importFiscalDocument(
+    fiscal: FiscalDocument,
+    status: string,
+    actorId?: number | null,
+    document?: { fileName: string; data: Buffer },
+  ): Promise<{ invoice: Invoice; client: Client; clientCreated: boolean }>;
+  getInvoiceNumbers(): Promise<string[]>;
+  importClients(rows: InsertClient[], actorId?: number | null): Promise<Client[]>;
+  importInvoices(rows: InvoiceImportRow[], actorId?: number | null): Promise<Invoice[]>;
+  
+  // Payments
+  getPaymentsByInvoice(invoiceId: number): Promise<Payment[]>;
+  streamPayments(query: PaymentListQuery): AsyncGenerator<PaymentWithInvoice[]>;
+  createPayment(payment: InsertPayment): Promise<Payment | undefined>;
+  deletePayment(invoiceId: number, paymentId: number, actorId?: number | null): Promise<boolean>;
+  
+  // PIX charges
+  createPixCharge(charge: InsertPixCharge): Promise<PixCharge>;
+  getPixChargeByTxid(txid: string): Promise<PixCharge | undefined>;
+  getActivePixCharge(invoiceId: number, amount: string): Promise<PixCharge | undefined>;
+  confirmPixCharge(txid: string, confirmation: PixConfirmation): Promise<Payment | undefined>;
+  processPixEvent(event: PixWebhookEvent): Promise<{ event: PixEvent; duplicate: boolean }>;
+  
+  // Audit
+  getAuditLog(filters: AuditFilters): Promise<AuditLogEntry[]>;
+  getInvoiceHistory(invoiceId: number): Promise<AuditLogEntry[]>;
   
   // Analytics
   getDashboardStats(monthFilter?: string, yearFilter?: number): Promise<{
@@ -70,13 +373,189 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
   
-  async createUser(user: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(user).returning();
+  async createUser(user: InsertUser, actorId: number | null = null): Promise<User> {
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(users).values(user).returning();
+      await this.audit(tx, actorId, "user", result[0].id, "create", null, result[0]);
+      return result[0];
+    });
+  }
+  
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(asc(users.username));
+  }
+  
+  async updateUser(id: number, user: Partial<InsertUser>, actorId: number | null = null): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(users).where(eq(users.id, id)).for("update");
+      if (!before) return undefined;
+      
+      const result = await tx.update(users).set(user).where(eq(users.id, id)).returning();
+      await this.audit(tx, actorId, "user", id, "update", before, result[0]);
+      return result[0];
+    });
+  }
+  
+  async getUserCount(): Promise<number> {
+    const [{ count }] = await db.select({ count: sql<number>`count(*)::int` }).from(users);
+    return count;
+  }
+  
+  // Primeiro usuário vira admin. A trava na tabela serializa cadastros simultâneos: só o
+  // primeiro encontra a tabela vazia, os demais recebem undefined
+  async createBootstrapAdmin(user: Omit<InsertUser, "role">): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`lock table ${users} in share row exclusive mode`);
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(users);
+      if (count > 0) return undefined;
+      
+      const [created] = await tx.insert(users).values({ ...user, role: "admin" }).returning();
+      await this.audit(tx, null, "user", created.id, "create", null, created);
+      return created;
+    });
+  }
+  
+  // Cada passo de tempo TOTP só pode ser usado uma vez
+  async useTotpStep(userId: number, step: number): Promise<boolean> {
+    const result = await db.update(users)
+      .set({ totpLastStep: step })
+      .where(and(eq(users.id, userId), sql`coalesce(${users.totpLastStep}, -1) < ${step}`))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+  
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const result = await db.update(users)
+      .set({ recoveryCodes: sql`${users.recoveryCodes} - ${codeHash}::text` })
+      .where(and(eq(users.id, userId), sql`${users.recoveryCodes} @> jsonb_build_array(${codeHash}::text)`))
+      .returning({ id: users.id });
+    return result.length > 0;
+  }
+  
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const result = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return result[0]?.value as T | undefined;
+  }
+  
+  async setSetting(key: string, value: unknown, updatedBy?: number): Promise<void> {
+    await db.insert(appSettings)
+      .values({ key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: appSettings.key,
+        set: { value, updatedBy, updatedAt: sql`now()` },
+      });
+  }
+  
+  async getLoginLockout(keys: string[]): Promise<{ key: string; retryAfterSeconds: number } | undefined> {
+    const result = await db
+      .select({
+        key: loginAttempts.key,
+        retryAfterSeconds: sql<number>`ceil(extract(epoch from ${loginAttempts.lockedUntil} - now()))::int`,
+      })
+      .from(loginAttempts)
+      .where(and(inArray(loginAttempts.key, keys), gt(loginAttempts.lockedUntil, sql`now()`)))
+      .orderBy(desc(loginAttempts.lockedUntil));
     return result[0];
   }
   
-  async getClients(): Promise<Client[]> {
-    return await db.select().from(clients).orderBy(asc(clients.name));
+  async recordLoginFailure(key: string): Promise<number> {
+    // Falhas antigas (mais de 24h) não contam para o bloqueio progressivo
+    const [row] = await db.insert(loginAttempts)
+      .values({ key, failures: 1, lastFailureAt: sql`now()` })
+      .onConflictDoUpdate({
+        target: loginAttempts.key,
+        set: {
+          failures: sql`case when ${loginAttempts.lastFailureAt} < now() - interval '24 hours' then 1 else ${loginAttempts.failures} + 1 end`,
+          lastFailureAt: sql`now()`,
+        },
+      })
+      .returning();
+    return row.failures;
+  }
+  
+  async lockLogin(key: string, minutes: number): Promise<void> {
+    await db.update(loginAttempts)
+      .set({ lockedUntil: sql`now() + ${minutes} * interval '1 minute'` })
+      .where(eq(loginAttempts.key, key));
+  }
+  
+  async clearLoginFailures(key: string): Promise<void> {
+    await db.delete(loginAttempts).where(eq(loginAttempts.key, key));
+  }
+  
+  async getInvitations(): Promise<Invitation[]> {
+    return await db.select().from(invitations).orderBy(desc(invitations.createdAt));
+  }
+  
+  async createInvitation(invitation: InsertInvitation): Promise<Invitation> {
+    const result = await db.insert(invitations).values(invitation).returning();
+    return result[0];
+  }
+  
+  async revokeInvitation(id: number): Promise<boolean> {
+    const result = await db.delete(invitations)
+      .where(and(eq(invitations.id, id), isNull(invitations.usedAt)))
+      .returning();
+    return result.length > 0;
+  }
+  
+  // Consome o convite e cria o usuário na mesma transação (uso único)
+  async createUserFromInvitation(tokenHash: string, user: Omit<InsertUser, "role">): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [invitation] = await tx.select().from(invitations)
+        .where(and(
+          eq(invitations.tokenHash, tokenHash),
+          isNull(invitations.usedAt),
+          gt(invitations.expiresAt, sql`now()`),
+        ))
+        .for("update");
+      if (!invitation) return undefined;
+      
+      const [created] = await tx.insert(users).values({ ...user, role: invitation.role }).returning();
+      await this.audit(tx, invitation.createdBy, "user", created.id, "create", null, created);
+      await tx.update(invitations)
+        .set({ usedAt: sql`now()`, usedBy: created.id })
+        .where(eq(invitations.id, invitation.id));
+      return created;
+    });
+  }
+  
+  // Busca por nome, nome fantasia ou CNPJ/CPF (com ou sem pontuação)
+  async getClients(includeDeleted = false, query?: string): Promise<Client[]> {
+    return await db.select().from(clients)
+      .where(this.clientFilters(includeDeleted, query))
+      .orderBy(asc(clients.name));
+  }
+  
+  async listClients(query: ClientListQuery, includeDeleted = false): Promise<Page<Client>> {
+    const order = listOrder(query.sort, clientSortColumns, clients.id);
+    const where = this.clientFilters(includeDeleted, query.q);
+    const cursor = query.cursor ? decodeCursor(query.cursor, query.sort) : undefined;
+    
+    const [{ total }] = await db.select({ total: sql<number>`count(*)::int` }).from(clients).where(where);
+    const rows = await db.select().from(clients)
+      .where(and(where, cursor ? afterCursor(order, cursor) : undefined))
+      .orderBy(...orderByList(order))
+      .limit(query.limit + 1)
+      .offset(cursor ? 0 : query.offset ?? 0);
+    
+    const field = query.sort.replace(/^-/, "") as keyof Client;
+    return toPage(rows, query, order, total, row => ({ value: row[field] ?? null, id: row.id }));
+  }
+  
+  // Busca por nome, nome fantasia ou parte do CNPJ/CPF
+  private clientFilters(includeDeleted: boolean, query?: string): SQL | undefined {
+    const term = query?.trim();
+    const digits = term ? onlyDigits(term) : "";
+    
+    return and(
+      includeDeleted ? undefined : isNull(clients.deletedAt),
+      term ? or(
+        ilike(clients.name, likePattern(term)),
+        ilike(clients.subName, likePattern(term)),
+        digits.length >= 3 ? like(clients.document, `%${digits}%`) : undefined,
+      ) : undefined,
+    );
   }
   
   async getClient(id: number): Promise<Client | undefined> {
@@ -88,7 +567,7 @@ export class DatabaseStorage implements IStorage {
     const client = await this.getClient(id);
     if (!client) return undefined;
     
-    const clientInvoices = await db.select().from(invoices).where(eq(invoices.clientId, id));
+    const clientInvoices = await db.select().from(invoices).where(and(eq(invoices.clientId, id), isNull(invoices.deletedAt)));
     
     return {
       ...client,
@@ -96,122 +575,1382 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
-  async createClient(client: InsertClient): Promise<Client> {
-    const result = await db.insert(clients).values(client).returning();
-    return result[0];
+  async createClient(client: InsertClient, actorId: number | null = null): Promise<Client> {
+    return await db.transaction(async (tx) => {
+      if (client.document) await this.assertDocumentAvailable(tx, client.document);
+      
+      const result = await tx.insert(clients).values(client).returning();
+      await this.audit(tx, actorId, "client", result[0].id, "create", null, result[0]);
+      return result[0];
+    });
   }
   
-  async updateClient(id: number, client: Partial<InsertClient>): Promise<Client | undefined> {
-    const result = await db.update(clients).set(client).where(eq(clients.id, id)).returning();
+  async updateClient(id: number, client: Partial<InsertClient>, actorId: number | null = null): Promise<Client | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(clients).where(and(eq(clients.id, id), isNull(clients.deletedAt))).for("update");
+      if (!before) return undefined;
+      if (client.document && client.document !== before.document) {
+        await this.assertDocumentAvailable(tx, client.document, id);
+      }
+      
+      const result = await tx.update(clients).set(client).where(eq(clients.id, id)).returning();
+      await this.audit(tx, actorId, "client", id, "update", before, result[0]);
+      return result[0];
+    });
+  }
+  
+  async deleteClient(id: number, actorId: number | null = null): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(clients)
+        .where(and(eq(clients.id, id), isNull(clients.deletedAt)))
+        .for("update");
+      if (!before) return false;
+      
+      // Cliente com saldo em aberto não pode ser removido
+      const [{ openBalance }] = await tx
+        .select({ openBalance: sql<string>`coalesce(sum(${invoices.balanceDue}), 0)` })
+        .from(invoices)
+        .where(and(
+          eq(invoices.clientId, id),
+          isNull(invoices.deletedAt),
+          inArray(invoices.status, ["pending", "partial", "overdue"]),
+        ));
+      if (toCents(openBalance) > 0) {
+        throw new ConflictError(`Client has an open balance of ${fromCents(toCents(openBalance))} and cannot be deleted`);
+      }
+      
+      const result = await tx.update(clients)
+        .set({ deletedAt: sql`now()`, deletedBy: actorId })
+        .where(eq(clients.id, id))
+        .returning();
+      await this.audit(tx, actorId, "client", id, "delete", before, result[0]);
+      return true;
+    });
+  }
+  
+  async restoreClient(id: number, actorId: number | null = null): Promise<Client | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(clients).where(eq(clients.id, id)).for("update");
+      if (!before?.deletedAt) return undefined;
+      if (before.document) await this.assertDocumentAvailable(tx, before.document, id);
+      
+      const result = await tx.update(clients)
+        .set({ deletedAt: null, deletedBy: null })
+        .where(eq(clients.id, id))
+        .returning();
+      await this.audit(tx, actorId, "client", id, "restore", before, result[0]);
+      return result[0];
+    });
+  }
+  
+  // Absorve o cliente duplicado: notas (e com elas os pagamentos), orçamentos, ordens de
+  // produção e anexos passam para o cliente que permanece; o duplicado é removido
+  async mergeClients(targetId: number, sourceId: number, actorId: number | null = null): Promise<ClientMergeSummary | undefined> {
+    if (targetId === sourceId) throw new ConflictError("A client cannot be merged into itself");
+    
+    return await db.transaction(async (tx) => {
+      const locked = await tx.select().from(clients)
+        .where(and(inArray(clients.id, [targetId, sourceId]), isNull(clients.deletedAt)))
+        .orderBy(asc(clients.id))
+        .for("update");
+      const target = locked.find(client => client.id === targetId);
+      const source = locked.find(client => client.id === sourceId);
+      if (!target || !source) return undefined;
+      if (target.document && source.document && target.document !== source.document) {
+        throw new ConflictError(`Clients have different CNPJ/CPF (${formatDocument(target.document)} and ${formatDocument(source.document)}) and cannot be merged`);
+      }
+      
+      const movedInvoices = await tx.update(invoices)
+        .set({ clientId: targetId })
+        .where(eq(invoices.clientId, sourceId))
+        .returning({ id: invoices.id });
+      for (const { id } of movedInvoices) {
+        await this.audit(tx, actorId, "invoice", id, "update", { clientId: sourceId }, { clientId: targetId });
+      }
+      const [{ movedPayments }] = movedInvoices.length > 0
+        ? await tx.select({ movedPayments: sql<number>`count(*)::int` }).from(payments)
+          .where(inArray(payments.invoiceId, movedInvoices.map(invoice => invoice.id)))
+        : [{ movedPayments: 0 }];
+      
+      const movedQuotes = await tx.update(quotes)
+        .set({ clientId: targetId })
+        .where(eq(quotes.clientId, sourceId))
+        .returning({ id: quotes.id });
+      const movedOrders = await tx.update(productionOrders)
+        .set({ clientId: targetId })
+        .where(eq(productionOrders.clientId, sourceId))
+        .returning({ id: productionOrders.id });
+      const movedAttachments = await tx.update(attachments)
+        .set({ ownerId: targetId })
+        .where(and(eq(attachments.ownerType, "client"), eq(attachments.ownerId, sourceId)))
+        .returning({ id: attachments.id });
+      const movedJobs = await tx.update(importJobs)
+        .set({ matchedClientId: targetId })
+        .where(eq(importJobs.matchedClientId, sourceId))
+        .returning({ id: importJobs.id });
+      
+      // Campos vazios do cliente que permanece são completados com os do duplicado
+      const hasPrimary = (target.contacts ?? []).some(contact => contact.isPrimary);
+      const contactKey = (contact: { email?: string; phone?: string; whatsapp?: string }) =>
+        [contact.email?.toLowerCase(), contact.phone, contact.whatsapp].join("|");
+      const knownContacts = new Set((target.contacts ?? []).map(contactKey));
+      const contacts = [
+        ...(target.contacts ?? []),
+        ...(source.contacts ?? [])
+          .filter(contact => !knownContacts.has(contactKey(contact)))
+          .map(contact => hasPrimary ? { ...contact, isPrimary: false } : contact),
+      ];
+      const takeLogo = !target.logoAttachmentId && !target.logoUrl;
+      
+      const [sourceAfter] = await tx.update(clients)
+        .set({ deletedAt: sql`now()`, deletedBy: actorId, logoAttachmentId: null })
+        .where(eq(clients.id, sourceId))
+        .returning();
+      const [merged] = await tx.update(clients)
+        .set({
+          subName: target.subName ?? source.subName,
+          document: target.document ?? source.document,
+          stateRegistration: target.stateRegistration ?? source.stateRegistration,
+          billingAddress: target.billingAddress ?? source.billingAddress,
+          deliveryAddress: target.deliveryAddress ?? source.deliveryAddress,
+          paymentTerms: target.paymentTerms ?? source.paymentTerms,
+          logoAttachmentId: takeLogo ? source.logoAttachmentId : target.logoAttachmentId,
+          logoUrl: takeLogo ? source.logoUrl : target.logoUrl,
+          contacts,
+        })
+        .where(eq(clients.id, targetId))
+        .returning();
+      
+      const moved = {
+        invoices: movedInvoices.length,
+        payments: movedPayments,
+        quotes: movedQuotes.length,
+        productionOrders: movedOrders.length,
+        attachments: movedAttachments.length,
+        importJobs: movedJobs.length,
+      };
+      await this.audit(tx, actorId, "client", targetId, "merge", target, { ...merged, mergedClientId: sourceId, moved });
+      await this.audit(tx, actorId, "client", sourceId, "delete", source, { ...sourceAfter, mergedIntoClientId: targetId });
+      
+      return { client: merged, mergedClientId: sourceId, moved };
+    });
+  }
+  
+  // Um CNPJ/CPF identifica um único cliente ativo
+  private async assertDocumentAvailable(tx: Transaction, document: string, exceptId?: number): Promise<void> {
+    const [existing] = await tx.select({ id: clients.id, name: clients.name }).from(clients)
+      .where(and(
+        eq(clients.document, document),
+        isNull(clients.deletedAt),
+        exceptId !== undefined ? ne(clients.id, exceptId) : undefined,
+      ));
+    if (existing) {
+      throw new ConflictError(`CNPJ/CPF ${formatDocument(document)} is already registered to client ${existing.name}`);
+    }
+  }
+  
+  async getProducts(includeInactive = false): Promise<Product[]> {
+    return await db.select().from(products)
+      .where(includeInactive ? undefined : eq(products.active, true))
+      .orderBy(asc(products.name));
+  }
+  
+  async getProduct(id: number): Promise<Product | undefined> {
+    const result = await db.select().from(products).where(eq(products.id, id));
     return result[0];
   }
   
-  async deleteClient(id: number): Promise<boolean> {
-    const result = await db.delete(clients).where(eq(clients.id, id)).returning();
-    return result.length > 0;
+  async createProduct(product: InsertProduct, actorId: number | null = null): Promise<Product> {
+    return await db.transaction(async (tx) => {
+      await this.assertSkuAvailable(tx, product.sku);
+      const result = await tx.insert(products).values(product).returning();
+      await this.audit(tx, actorId, "product", result[0].id, "create", null, result[0]);
+      return result[0];
+    });
   }
   
-  async getInvoices(): Promise<InvoiceWithClient[]> {
-    const result = await db.select().from(invoices).leftJoin(clients, eq(invoices.clientId, clients.id)).orderBy(desc(invoices.issueDate));
-    
-    return result.map(row => ({
-      id: row.invoices.id,
-      number: row.invoices.number,
-      clientId: row.invoices.clientId,
-      amount: row.invoices.amount,
-      balanceDue: row.invoices.balanceDue,
-      issueDate: row.invoices.issueDate,
-      status: row.invoices.status,
-      items: row.invoices.items,
-      notes: row.invoices.notes,
-      client: row.clients
-    }));
+  async updateProduct(id: number, product: Partial<InsertProduct>, actorId: number | null = null): Promise<Product | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      if (!before) return undefined;
+      
+      if (product.sku && product.sku !== before.sku) {
+        await this.assertSkuAvailable(tx, product.sku);
+      }
+      
+      const result = await tx.update(products).set(product).where(eq(products.id, id)).returning();
+      await this.audit(tx, actorId, "product", id, "update", before, result[0]);
+      return result[0];
+    });
   }
   
-  async getInvoice(id: number): Promise<InvoiceWithClient | undefined> {
-    const result = await db.select().from(invoices).leftJoin(clients, eq(invoices.clientId, clients.id)).where(eq(invoices.id, id));
+  // Produtos já usados em notas não são apagados, apenas saem do catálogo
+  async deactivateProduct(id: number, actorId: number | null = null): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(products)
+        .where(and(eq(products.id, id), eq(products.active, true)))
+        .for("update");
+      if (!before) return false;
+      
+      const result = await tx.update(products).set({ active: false }).where(eq(products.id, id)).returning();
+      await this.audit(tx, actorId, "product", id, "delete", before, result[0]);
+      return true;
+    });
+  }
+  
+  private async assertSkuAvailable(tx: Transaction, sku: string): Promise<void> {
+    const [existing] = await tx.select({ id: products.id }).from(products).where(eq(products.sku, sku));
+    if (existing) {
+      throw new ConflictError(`SKU ${sku} is already in use`);
+    }
+  }
+  
+  // Recalcula os totais quando itens ou valor mudam; itens antigos fora do schema atual
+  // são mantidos como estão e o amount vale como total
+  private async resolveTotalsUpdate(
+    changes: { items?: InvoiceItem[]; amount?: string },
+    before: { items: unknown; amount: string },
+  ) {
+    if (changes.items === undefined && changes.amount === undefined) return {};
+    
+    const items = changes.items ? await this.priceInvoiceItems(changes.items) : parseInvoiceItems(before.items);
+    const submittedAmount = changes.amount ?? (items?.length ? undefined : before.amount);
+    const { items: pricedItems, ...totals } = resolveInvoiceTotals(items ?? [], submittedAmount);
+    return { ...totals, ...(items ? { items: pricedItems } : {}) };
+  }
+  
+  // Resolve preço, descrição e unidade das linhas que referenciam o catálogo
+  private async priceInvoiceItems(items: InvoiceItem[]): Promise<InvoiceItem[]> {
+    const productIds = Array.from(new Set(items.flatMap(item => item.productId === undefined ? [] : [item.productId])));
+    if (productIds.length === 0) return items;
+    
+    const catalog = await db.select().from(products).where(inArray(products.id, productIds));
+    return applyCatalogPrices(items, catalog);
+  }
+  
+  async getInvoices(includeDeleted = false): Promise<InvoiceWithClient[]> {
+    const result = await this.selectInvoices()
+      .where(includeDeleted ? undefined : isNull(invoices.deletedAt))
+      .orderBy(desc(invoices.issueDate));
+    return result.map(row => ({ ...row.invoice, client: row.client }));
+  }
+  
+  async listInvoices(query: InvoiceListQuery, includeDeleted = false): Promise<InvoicePage> {
+    const order = listOrder(query.sort, invoiceSortColumns, invoices.id);
+    const where = this.invoiceFilters(query, includeDeleted);
+    const cursor = query.cursor ? decodeCursor(query.cursor, query.sort) : undefined;
     
-    if (!result[0]) return undefined;
+    const [totals] = await db
+      .select({
+        count: sql<number>`count(*)::int`,
+        amount: sql<string>`coalesce(sum(${invoices.amount}), 0)`,
+        balanceDue: sql<string>`coalesce(sum(${invoices.balanceDue}), 0)`,
+      })
+      .from(invoices)
+      .where(where);
+    const rows = await this.selectInvoices()
+      .where(and(where, cursor ? afterCursor(order, cursor) : undefined))
+      .orderBy(...orderByList(order))
+      .limit(query.limit + 1)
+      .offset(cursor ? 0 : query.offset ?? 0);
     
+    const page = toPage(rows.map(row => ({ ...row.invoice, client: row.client })), query, order, totals.count, invoice => invoiceCursor(query.sort, invoice));
     return {
-      id: result[0].invoices.id,
-      number: result[0].invoices.number,
-      clientId: result[0].invoices.clientId,
-      amount: result[0].invoices.amount,
-      balanceDue: result[0].invoices.balanceDue,
-      issueDate: result[0].invoices.issueDate,
-      status: result[0].invoices.status,
-      items: result[0].invoices.items,
-      notes: result[0].invoices.notes,
-      client: result[0].clients
+      ...page,
+      meta: {
+        ...page.meta,
+        totals: { amount: fromCents(toCents(totals.amount)), balanceDue: fromCents(toCents(totals.balanceDue)) },
+      },
     };
   }
   
-  async getInvoicesByClient(clientId: number): Promise<Invoice[]> {
-    return await db.select().from(invoices).where(eq(invoices.clientId, clientId)).orderBy(desc(invoices.issueDate));
+  // Percorre a listagem inteira em lotes (keyset), sem carregar todas as notas em memória
+  async *streamInvoices(query: InvoiceListQuery, includeDeleted = false, batchSize = STREAM_BATCH_SIZE): AsyncGenerator<InvoiceWithClient[]> {
+    const order = listOrder(query.sort, invoiceSortColumns, invoices.id);
+    const where = this.invoiceFilters(query, includeDeleted);
+    let cursor: ListCursor | undefined;
+    
+    while (true) {
+      const rows = await this.selectInvoices()
+        .where(and(where, cursor ? afterCursor(order, cursor) : undefined))
+        .orderBy(...orderByList(order))
+        .limit(batchSize);
+      if (rows.length === 0) return;
+      
+      const batch = rows.map(row => ({ ...row.invoice, client: row.client }));
+      yield batch;
+      if (rows.length < batchSize) return;
+      cursor = invoiceCursor(query.sort, batch[batch.length - 1]);
+    }
+  }
+  
+  private invoiceFilters(query: Omit<InvoiceListQuery, "sort" | "limit">, includeDeleted: boolean): SQL | undefined {
+    return and(
+      includeDeleted ? undefined : isNull(invoices.deletedAt),
+      query.status ? inArray(invoices.status, query.status) : undefined,
+      query.clientId ? eq(invoices.clientId, query.clientId) : undefined,
+      query.issuedFrom ? gte(invoices.issueDate, query.issuedFrom) : undefined,
+      // Data final inclusiva: tudo antes do dia seguinte
+      query.issuedTo ? lt(invoices.issueDate, sql`${query.issuedTo}::date + 1`) : undefined,
+      query.minAmount !== undefined ? gte(invoices.amount, query.minAmount.toFixed(2)) : undefined,
+      query.maxAmount !== undefined ? lte(invoices.amount, query.maxAmount.toFixed(2)) : undefined,
+      query.q ? or(ilike(invoices.number, likePattern(query.q)), ilike(invoices.notes, likePattern(query.q))) : undefined,
+    );
+  }
+  
+  async getInvoice(id: number): Promise<InvoiceWithClient | undefined> {
+    const [row] = await this.selectInvoices().where(eq(invoices.id, id));
+    return row ? { ...row.invoice, client: row.client } : undefined;
+  }
+  
+  async getOverdueInvoices(): Promise<InvoiceWithClient[]> {
+    const result = await this.selectInvoices().where(and(eq(invoices.status, 'overdue'), isNull(invoices.deletedAt)));
+    return result.map(row => ({ ...row.invoice, client: row.client }));
+  }
+  
+  private selectInvoices() {
+    return db.select({ invoice: invoices, client: clients })
+      .from(invoices)
+      .leftJoin(clients, eq(invoices.clientId, clients.id));
+  }
+  
+  async getOverdueAging(): Promise<ClientAgingSummary[]> {
+    const overdueInvoices = await this.getOverdueInvoices();
+    const summaries = new Map<number | null, ClientAgingSummary>();
+    
+    for (const invoice of overdueInvoices) {
+      const daysOverdue = getDaysOverdue(invoice);
+      const balanceDue = parseFloat(invoice.balanceDue);
+      
+      let summary = summaries.get(invoice.clientId);
+      if (!summary) {
+        summary = {
+          client: invoice.client,
+          totalOverdue: 0,
+          buckets: { "1-30": 0, "31-60": 0, "61-90": 0, "90+": 0 },
+          invoices: [],
+        };
+        summaries.set(invoice.clientId, summary);
+      }
+      
+      summary.totalOverdue += balanceDue;
+      summary.buckets[getAgingBucket(daysOverdue)] += balanceDue;
+      summary.invoices.push({ ...invoice, daysOverdue });
+    }
+    
+    return Array.from(summaries.values()).sort((a, b) => b.totalOverdue - a.totalOverdue);
+  }
+  
+  async markOverdueInvoices(today: Date = new Date()): Promise<number> {
+    const openInvoices = await db.select().from(invoices).where(and(inArray(invoices.status, ["pending", "partial"]), isNull(invoices.deletedAt)));
+    const overdueIds = openInvoices
+      .filter(invoice => getDaysOverdue(invoice, today) > 0)
+      .map(invoice => invoice.id);
+    
+    if (overdueIds.length === 0) return 0;
+    
+    return await db.transaction(async (tx) => {
+      const result = await tx.update(invoices)
+        .set({ status: "overdue" })
+        .where(and(inArray(invoices.id, overdueIds), inArray(invoices.status, ["pending", "partial"])))
+        .returning();
+      
+      // Alteração feita pelo sistema (sem ator)
+      for (const updated of result) {
+        const before = openInvoices.find(invoice => invoice.id === updated.id)!;
+        await this.audit(tx, null, "invoice", updated.id, "update", before, updated);
+      }
+      return result.length;
+    });
+  }
+  
+  async createInvoice(invoice: InsertInvoice, actorId: number | null = null): Promise<Invoice> {
+    return await db.transaction(async (tx) => this.insertInvoice(tx, invoice, actorId));
+  }
+  
+  private async insertInvoice(
+    tx: Transaction,
+    invoice: InsertInvoice & Partial<Pick<Invoice, "quoteId" | "accessKey" | "fiscalDocument">>,
+    actorId: number | null,
+  ): Promise<Invoice> {
+    let { paymentTerms, dueDate } = invoice;
+    
+    // Sem prazo informado, a nota herda as condições de pagamento do cliente
+    if (!paymentTerms && invoice.clientId) {
+      const [client] = await tx.select().from(clients).where(eq(clients.id, invoice.clientId));
+      paymentTerms = client?.paymentTerms ?? null;
+    }
+    if (!dueDate && paymentTerms) {
+      dueDate = calculateDueDate(invoice.issueDate, paymentTerms);
+    }
+    
+    // Totais sempre calculados no servidor a partir dos itens
+    const items = await this.priceInvoiceItems(invoice.items ?? []);
+    const totals = resolveInvoiceTotals(items, invoice.amount);
+    
+    const result = await tx.insert(invoices)
+      .values({ ...invoice, ...totals, paymentTerms, dueDate, balanceDue: totals.amount })
+      .returning();
+    
+    // Status enviado (ex.: "paid" sem pagamentos) não vale: só rascunho e cancelada são manuais
+    const created = (await this.recalculateInvoice(tx, result[0].id)) ?? result[0];
+    await this.audit(tx, actorId, "invoice", created.id, "create", null, created);
+    return created;
+  }
+  
+  async updateInvoice(id: number, invoice: Partial<InsertInvoice>, actorId: number | null = null): Promise<Invoice | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(invoices).where(and(eq(invoices.id, id), isNull(invoices.deletedAt))).for("update");
+      if (!before) return undefined;
+      
+      const changes = { ...invoice, ...await this.resolveTotalsUpdate(invoice, before) };
+      const result = await tx.update(invoices).set(changes).where(eq(invoices.id, id)).returning();
+      
+      // Sem vencimento explícito, ele acompanha o prazo: novo prazo ou nova emissão o recalculam.
+      // Um vencimento informado antes à mão só muda quando o prazo muda
+      const terms = result[0].paymentTerms;
+      const termsChanged = invoice.paymentTerms !== undefined && invoice.paymentTerms !== before.paymentTerms;
+      const issueChanged = result[0].issueDate.substring(0, 10) !== before.issueDate.substring(0, 10);
+      const dueDateFromTerms = !before.dueDate ||
+        (before.paymentTerms !== null && isDueDateFromTerms(before.issueDate, before.dueDate, before.paymentTerms));
+      if (!invoice.dueDate && terms && isValidPaymentTerms(terms) && (termsChanged || (issueChanged && dueDateFromTerms))) {
+        await tx.update(invoices)
+          .set({ dueDate: calculateDueDate(result[0].issueDate, terms) })
+          .where(eq(invoices.id, id));
+      }
+      
+      // O valor pode ter mudado, então saldo e status são recalculados a partir dos pagamentos
+      const updated = await this.recalculateInvoice(tx, id);
+      await this.audit(tx, actorId, "invoice", id, "update", before, updated ?? null);
+      return updated;
+    });
+  }
+  
+  async deleteInvoice(id: number, actorId: number | null = null): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(invoices)
+        .where(and(eq(invoices.id, id), isNull(invoices.deletedAt)))
+        .for("update");
+      if (!before) return false;
+      
+      const result = await tx.update(invoices)
+        .set({ deletedAt: sql`now()`, deletedBy: actorId })
+        .where(eq(invoices.id, id))
+        .returning();
+      await this.audit(tx, actorId, "invoice", id, "delete", before, result[0]);
+      return true;
+    });
+  }
+  
+  async restoreInvoice(id: number, actorId: number | null = null): Promise<Invoice | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(invoices).where(eq(invoices.id, id)).for("update");
+      if (!before?.deletedAt) return undefined;
+      
+      if (before.clientId) {
+        const [client] = await tx.select().from(clients).where(eq(clients.id, before.clientId));
+        if (client?.deletedAt) {
+          throw new ConflictError("Restore the invoice's client before restoring the invoice");
+        }
+      }
+      
+      const result = await tx.update(invoices)
+        .set({ deletedAt: null, deletedBy: null })
+        .where(eq(invoices.id, id))
+        .returning();
+      await this.audit(tx, actorId, "invoice", id, "restore", before, result[0]);
+      return result[0];
+    });
+  }
+  
+  async getQuotes(filters: QuoteFilters = {}): Promise<QuoteWithClient[]> {
+    const conditions = [];
+    if (filters.status) conditions.push(eq(quotes.status, filters.status));
+    if (filters.clientId) conditions.push(eq(quotes.clientId, filters.clientId));
+    
+    const result = await this.selectQuotes()
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(quotes.issueDate));
+    
+    return result.map(row => ({ ...row.quote, client: row.client, invoiceId: row.invoiceId }));
+  }
+  
+  async getQuote(id: number): Promise<QuoteWithClient | undefined> {
+    const [row] = await this.selectQuotes().where(eq(quotes.id, id));
+    return row ? { ...row.quote, client: row.client, invoiceId: row.invoiceId } : undefined;
   }
   
-  async getInvoicesByStatus(status: string): Promise<InvoiceWithClient[]> {
-    const result = await db.select().from(invoices).leftJoin(clients, eq(invoices.clientId, clients.id)).where(eq(invoices.status, status));
+  // Orçamento com cliente e a nota gerada na conversão (se houver)
+  private selectQuotes() {
+    return db.select({ quote: quotes, client: clients, invoiceId: invoices.id })
+      .from(quotes)
+      .leftJoin(clients, eq(quotes.clientId, clients.id))
+      .leftJoin(invoices, and(eq(invoices.quoteId, quotes.id), isNull(invoices.deletedAt)));
+  }
+  
+  async getQuoteRevisions(quoteId: number): Promise<QuoteRevision[]> {
+    return await db.select().from(quoteRevisions)
+      .where(eq(quoteRevisions.quoteId, quoteId))
+      .orderBy(desc(quoteRevisions.revision));
+  }
+  
+  async createQuote(quote: InsertQuote, actorId: number | null = null): Promise<Quote> {
+    let { paymentTerms } = quote;
     
-    return result.map(row => ({
-      id: row.invoices.id,
-      number: row.invoices.number,
-      clientId: row.invoices.clientId,
-      amount: row.invoices.amount,
-      balanceDue: row.invoices.balanceDue,
-      issueDate: row.invoices.issueDate,
-      status: row.invoices.status,
-      items: row.invoices.items,
-      notes: row.invoices.notes,
-      client: row.clients
+    // Assim como nas notas, sem prazo informado vale o do cliente
+    if (!paymentTerms && quote.clientId) {
+      const client = await this.getClient(quote.clientId);
+      paymentTerms = client?.paymentTerms ?? null;
+    }
+    
+    const items = await this.priceInvoiceItems(quote.items ?? []);
+    const totals = resolveInvoiceTotals(items, quote.amount);
+    
+    return await db.transaction(async (tx) => {
+      const result = await tx.insert(quotes)
+        .values({ ...quote, ...totals, paymentTerms, createdBy: actorId })
+        .returning();
+      await this.audit(tx, actorId, "quote", result[0].id, "create", null, result[0]);
+      return result[0];
+    });
+  }
+  
+  // Rascunhos são editados no lugar; orçamentos já enviados ganham uma nova revisão
+  async updateQuote(id: number, quote: Partial<InsertQuote>, actorId: number | null = null): Promise<Quote | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(quotes).where(eq(quotes.id, id)).for("update");
+      if (!before) return undefined;
+      
+      if (before.status === "accepted") {
+        throw new ConflictError("Accepted quotes cannot be changed");
+      }
+      
+      const changes: Partial<typeof quotes.$inferInsert> = { ...quote, ...await this.resolveTotalsUpdate(quote, before) };
+      if (before.status !== "draft") {
+        await tx.insert(quoteRevisions).values({
+          quoteId: id,
+          revision: before.revision,
+          snapshot: buildQuoteSnapshot(before),
+          createdBy: actorId,
+        });
+        changes.revision = before.revision + 1;
+        changes.status = "draft";
+        changes.decidedAt = null;
+      }
+      
+      const result = await tx.update(quotes).set(changes).where(eq(quotes.id, id)).returning();
+      await this.audit(tx, actorId, "quote", id, "update", before, result[0]);
+      return result[0];
+    });
+  }
+  
+  async updateQuoteStatus(id: number, status: QuoteStatus, actorId: number | null = null): Promise<Quote | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(quotes).where(eq(quotes.id, id)).for("update");
+      if (!before) return undefined;
+      
+      if (!canTransitionQuote(before.status, status)) {
+        throw new ConflictError(`Quote cannot change from ${before.status} to ${status}`);
+      }
+      if (status === "accepted" && isQuoteExpired(before)) {
+        throw new ConflictError(`Quote expired on ${before.validUntil.substring(0, 10)}; revise it before accepting`);
+      }
+      
+      const decided = status === "accepted" || status === "rejected";
+      const result = await tx.update(quotes)
+        .set({ status, decidedAt: decided ? sql`now()` : before.decidedAt })
+        .where(eq(quotes.id, id))
+        .returning();
+      await this.audit(tx, actorId, "quote", id, "update", before, result[0]);
+      return result[0];
+    });
+  }
+  
+  async markExpiredQuotes(today: Date = new Date()): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const expiring = await tx.select().from(quotes)
+        .where(and(eq(quotes.status, "sent"), lt(quotes.validUntil, format(today, "yyyy-MM-dd"))))
+        .for("update");
+      if (expiring.length === 0) return 0;
+      
+      const result = await tx.update(quotes)
+        .set({ status: "expired" })
+        .where(inArray(quotes.id, expiring.map(quote => quote.id)))
+        .returning();
+      
+      // Alteração feita pelo sistema (sem ator)
+      for (const updated of result) {
+        const before = expiring.find(quote => quote.id === updated.id)!;
+        await this.audit(tx, null, "quote", updated.id, "update", before, updated);
+      }
+      return result.length;
+    });
+  }
+  
+  async convertQuote(id: number, conversion: QuoteConversion, actorId: number | null = null): Promise<Invoice | undefined> {
+    return await db.transaction(async (tx) => {
+      const [quote] = await tx.select().from(quotes).where(eq(quotes.id, id)).for("update");
+      if (!quote) return undefined;
+      
+      if (quote.status !== "accepted") {
+        throw new ConflictError("Only accepted quotes can be converted to invoices");
+      }
+      
+      const [existing] = await tx.select({ number: invoices.number }).from(invoices)
+        .where(and(eq(invoices.quoteId, id), isNull(invoices.deletedAt)));
+      if (existing) {
+        throw new ConflictError(`Quote was already converted to invoice ${existing.number}`);
+      }
+      
+      return await this.insertInvoice(tx, {
+        number: conversion.number,
+        clientId: quote.clientId,
+        issueDate: conversion.issueDate ?? format(new Date(), "yyyy-MM-dd"),
+        paymentTerms: quote.paymentTerms,
+        status: conversion.status ?? "pending",
+        items: parseInvoiceItems(quote.items) ?? [],
+        amount: quote.amount,
+        notes: quote.notes,
+        quoteId: quote.id,
+      }, actorId);
+    });
+  }
+  
+  // Conversão por cliente: orçamentos enviados ao cliente (exceto rascunhos) que viraram nota
+  async getQuoteConversionStats(): Promise<QuoteConversionSummary[]> {
+    const rows = await this.selectQuotes().where(ne(quotes.status, "draft"));
+    const summaries = new Map<number | null, QuoteConversionSummary>();
+    
+    for (const row of rows) {
+      const key = row.quote.clientId;
+      let summary = summaries.get(key);
+      if (!summary) {
+        summary = {
+          client: row.client,
+          quotes: 0,
+          accepted: 0,
+          rejected: 0,
+          expired: 0,
+          converted: 0,
+          conversionRate: 0,
+          quotedAmount: 0,
+          convertedAmount: 0,
+        };
+        summaries.set(key, summary);
+      }
+      
+      const amount = parseFloat(row.quote.amount);
+      summary.quotes++;
+      summary.quotedAmount += amount;
+      if (row.quote.status === "accepted") summary.accepted++;
+      if (row.quote.status === "rejected") summary.rejected++;
+      if (row.quote.status === "expired") summary.expired++;
+      if (row.invoiceId !== null) {
+        summary.converted++;
+        summary.convertedAmount += amount;
+      }
+    }
+    
+    return Array.from(summaries.values())
+      .map(summary => ({ ...summary, conversionRate: summary.converted / summary.quotes }))
+      .sort((a, b) => b.quotes - a.quotes);
+  }
+  
+  async getProductionOrders(filters: ProductionOrderFilters = {}): Promise<ProductionOrderWithDetails[]> {
+    const conditions = [];
+    if (filters.stage) conditions.push(eq(productionOrders.stage, filters.stage));
+    if (filters.assignedTo) conditions.push(eq(productionOrders.assignedTo, filters.assignedTo));
+    
+    const result = await this.selectProductionOrders()
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(productionOrders.dueDate), asc(productionOrders.id));
+    return result.map(row => this.toProductionOrderWithDetails(row));
+  }
+  
+  async getProductionOrder(id: number): Promise<ProductionOrderWithDetails | undefined> {
+    const [row] = await this.selectProductionOrders().where(eq(productionOrders.id, id));
+    return row ? this.toProductionOrderWithDetails(row) : undefined;
+  }
+  
+  private selectProductionOrders() {
+    return db.select({
+      order: productionOrders,
+      client: clients,
+      invoiceNumber: invoices.number,
+      quoteNumber: quotes.number,
+      assigneeId: users.id,
+      assigneeName: users.name,
+      assigneeUsername: users.username,
+    })
+      .from(productionOrders)
+      .leftJoin(clients, eq(productionOrders.clientId, clients.id))
+      .leftJoin(invoices, eq(productionOrders.invoiceId, invoices.id))
+      .leftJoin(quotes, eq(productionOrders.quoteId, quotes.id))
+      .leftJoin(users, eq(productionOrders.assignedTo, users.id));
+  }
+  
+  private toProductionOrderWithDetails(row: Awaited<ReturnType<DatabaseStorage["selectProductionOrders"]>>[number]): ProductionOrderWithDetails {
+    return {
+      ...row.order,
+      client: row.client,
+      invoiceNumber: row.invoiceNumber,
+      quoteNumber: row.quoteNumber,
+      assignee: row.assigneeId !== null
+        ? { id: row.assigneeId, name: row.assigneeName, username: row.assigneeUsername! }
+        : null,
+    };
+  }
+  
+  async getProductionStageEvents(orderId: number): Promise<ProductionStageEvent[]> {
+    return await db.select().from(productionStageEvents)
+      .where(eq(productionStageEvents.orderId, orderId))
+      .orderBy(asc(productionStageEvents.changedAt));
+  }
+  
+  // Nota ou orçamento de origem inexistente devolve undefined
+  async createProductionOrder(order: InsertProductionOrder, actorId: number | null = null): Promise<ProductionOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      // O cliente vem da nota ou do orçamento de origem
+      let clientId: number | null = null;
+      if (order.invoiceId) {
+        const [invoice] = await tx.select().from(invoices).where(and(eq(invoices.id, order.invoiceId), isNull(invoices.deletedAt)));
+        if (!invoice) return undefined;
+        clientId = invoice.clientId;
+      } else if (order.quoteId) {
+        const [quote] = await tx.select().from(quotes).where(eq(quotes.id, order.quoteId));
+        if (!quote) return undefined;
+        clientId = quote.clientId;
+      }
+      if (order.assignedTo) {
+        await this.assertActiveOperator(tx, order.assignedTo);
+      }
+      
+      const result = await tx.insert(productionOrders)
+        .values({ ...order, clientId, createdBy: actorId })
+        .returning();
+      await tx.insert(productionStageEvents).values({
+        orderId: result[0].id,
+        fromStage: null,
+        toStage: result[0].stage,
+        changedBy: actorId,
+      });
+      await this.audit(tx, actorId, "production_order", result[0].id, "create", null, result[0]);
+      return result[0];
+    });
+  }
+  
+  async updateProductionOrder(id: number, order: Partial<InsertProductionOrder>, actorId: number | null = null): Promise<ProductionOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(productionOrders).where(eq(productionOrders.id, id)).for("update");
+      if (!before) return undefined;
+      
+      if (order.assignedTo) {
+        await this.assertActiveOperator(tx, order.assignedTo);
+      }
+      
+      const result = await tx.update(productionOrders).set(order).where(eq(productionOrders.id, id)).returning();
+      await this.audit(tx, actorId, "production_order", id, "update", before, result[0]);
+      return result[0];
+    });
+  }
+  
+  // No quadro a ordem pode ir para qualquer etapa (inclusive voltar, em caso de retrabalho)
+  async moveProductionOrder(id: number, stage: ProductionStage, note?: string, actorId: number | null = null): Promise<ProductionOrder | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(productionOrders).where(eq(productionOrders.id, id)).for("update");
+      if (!before) return undefined;
+      
+      if (before.stage === stage) {
+        throw new ConflictError(`Production order is already in ${stage}`);
+      }
+      
+      const [event] = await tx.insert(productionStageEvents).values({
+        orderId: id,
+        fromStage: before.stage,
+        toStage: stage,
+        note,
+        changedBy: actorId,
+      }).returning();
+      const result = await tx.update(productionOrders)
+        .set({ stage, stageChangedAt: event.changedAt })
+        .where(eq(productionOrders.id, id))
+        .returning();
+      await this.audit(tx, actorId, "production_order", id, "update", before, result[0]);
+      return result[0];
+    });
+  }
+  
+  async getProductionBoard(): Promise<ProductionBoardColumn[]> {
+    const orders = await this.getProductionOrders();
+    return productionStages.map(stage => ({
+      stage,
+      orders: orders.filter(order => order.stage === stage),
     }));
   }
   
-  async getOverdueInvoices(): Promise<InvoiceWithClient[]> {
-    const result = await db.select().from(invoices).leftJoin(clients, eq(invoices.clientId, clients.id)).where(eq(invoices.status, 'pending'));
-    
-    return result.map(row => ({
-      id: row.invoices.id,
-      number: row.invoices.number,
-      clientId: row.invoices.clientId,
-      amount: row.invoices.amount,
-      balanceDue: row.invoices.balanceDue,
-      issueDate: row.invoices.issueDate,
-      status: row.invoices.status,
-      items: row.invoices.items,
-      notes: row.invoices.notes,
-      client: row.clients
+  private async assertActiveOperator(tx: Transaction, userId: number): Promise<void> {
+    const [operator] = await tx.select({ active: users.active }).from(users).where(eq(users.id, userId));
+    if (!operator?.active) {
+      throw new ConflictError("Assigned operator not found or inactive");
+    }
+  }
+  
+  async getAttachments(ownerType: AttachmentOwnerType, ownerId: number): Promise<Attachment[]> {
+    return await db.select().from(attachments)
+      .where(and(eq(attachments.ownerType, ownerType), eq(attachments.ownerId, ownerId)))
+      .orderBy(desc(attachments.createdAt));
+  }
+  
+  async getAttachment(id: number): Promise<Attachment | undefined> {
+    const result = await db.select().from(attachments).where(eq(attachments.id, id));
+    return result[0];
+  }
+  
+  async getAttachmentContent(attachment: Attachment): Promise<Buffer> {
+    const backend = getAttachmentStorage();
+    if (backend.name !== attachment.storageBackend) {
+      throw new Error(`Attachment ${attachment.id} is stored in ${attachment.storageBackend}, but the active backend is ${backend.name}`);
+    }
+    return await backend.get(attachment.storageKey);
+  }
+  
+  async attachmentOwnerExists(ownerType: AttachmentOwnerType, ownerId: number): Promise<boolean> {
+    const owners = {
+      client: () => db.select({ id: clients.id }).from(clients).where(and(eq(clients.id, ownerId), isNull(clients.deletedAt))),
+      invoice: () => db.select({ id: invoices.id }).from(invoices).where(and(eq(invoices.id, ownerId), isNull(invoices.deletedAt))),
+      quote: () => db.select({ id: quotes.id }).from(quotes).where(eq(quotes.id, ownerId)),
+      production_order: () => db.select({ id: productionOrders.id }).from(productionOrders).where(eq(productionOrders.id, ownerId)),
+      import: () => Promise.resolve([]),
+    };
+    const result = await owners[ownerType]();
+    return result.length > 0;
+  }
+  
+  // Mesmo arquivo no mesmo dono devolve o anexo existente; o conteúdo é gravado uma vez por hash
+  async createAttachment(attachment: NewAttachment, actorId: number | null = null): Promise<{ attachment: Attachment; duplicate: boolean }> {
+    const hash = sha256(attachment.data);
+    const ownerCondition = attachment.ownerId === null ? isNull(attachments.ownerId) : eq(attachments.ownerId, attachment.ownerId);
+    const [existing] = await db.select().from(attachments)
+      .where(and(eq(attachments.ownerType, attachment.ownerType), ownerCondition, eq(attachments.sha256, hash)));
+    if (existing) {
+      return { attachment: existing, duplicate: true };
+    }
+    
+    const content = await this.storeAttachmentContent(attachment.kind, attachment.data, hash);
+    return await db.transaction(async (tx) => ({
+      attachment: await this.insertAttachment(tx, attachment, content, actorId),
+      duplicate: false,
     }));
   }
   
-  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
-    const result = await db.insert(invoices).values(invoice).returning();
+  // Grava o objeto fora da transação; se ela falhar, o objeto fica sem registro e é
+  // reaproveitado pelo hash na próxima tentativa
+  private async storeAttachmentContent(kind: AttachmentKind, data: Buffer, hash = sha256(data)): Promise<StoredAttachmentContent> {
+    const mimeType = validateAttachment(kind, data);
+    const backend = getAttachmentStorage();
+    
+    const storageKey = buildStorageKey(hash);
+    const [stored] = await db.select({ id: attachments.id }).from(attachments)
+      .where(and(eq(attachments.sha256, hash), eq(attachments.storageBackend, backend.name)))
+      .limit(1);
+    if (!stored) {
+      await backend.put(storageKey, data, mimeType);
+    }
+    return { mimeType, size: data.length, sha256: hash, storageBackend: backend.name, storageKey };
+  }
+  
+  private async insertAttachment(
+    tx: Transaction,
+    attachment: NewAttachment,
+    content: StoredAttachmentContent,
+    actorId: number | null,
+  ): Promise<Attachment> {
+    const result = await tx.insert(attachments).values({
+      ownerType: attachment.ownerType,
+      ownerId: attachment.ownerId,
+      kind: attachment.kind,
+      fileName: sanitizeFileName(attachment.fileName),
+      ...content,
+      uploadedBy: actorId,
+    }).returning();
+    await this.audit(tx, actorId, "attachment", result[0].id, "create", null, result[0]);
     return result[0];
   }
   
-  async updateInvoice(id: number, invoice: Partial<InsertInvoice>): Promise<Invoice | undefined> {
-    const result = await db.update(invoices).set(invoice).where(eq(invoices.id, id)).returning();
+  async deleteAttachment(id: number, actorId: number | null = null): Promise<boolean> {
+    const deleted = await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(attachments).where(eq(attachments.id, id)).for("update");
+      if (!before) return undefined;
+      
+      // Logo removido deixa de ser exibido no cliente
+      await tx.update(clients)
+        .set({ logoUrl: null })
+        .where(eq(clients.logoAttachmentId, id));
+      await tx.delete(attachments).where(eq(attachments.id, id));
+      await this.audit(tx, actorId, "attachment", id, "delete", before, null);
+      
+      const [shared] = await tx.select({ id: attachments.id }).from(attachments)
+        .where(and(eq(attachments.storageKey, before.storageKey), eq(attachments.storageBackend, before.storageBackend)))
+        .limit(1);
+      return { attachment: before, orphaned: !shared };
+    });
+    if (!deleted) return false;
+    
+    // O objeto só é apagado depois do commit e quando nenhum outro anexo o usa
+    if (deleted.orphaned) {
+      const backend = getAttachmentStorage();
+      if (backend.name === deleted.attachment.storageBackend) {
+        await backend.delete(deleted.attachment.storageKey).catch(error => {
+          console.error(`Failed to delete attachment object ${deleted.attachment.storageKey}:`, error);
+        });
+      }
+    }
+    return true;
+  }
+  
+  async setClientLogo(clientId: number, attachmentId: number, actorId: number | null = null): Promise<Client | undefined> {
+    return await db.transaction(async (tx) => {
+      const [before] = await tx.select().from(clients).where(and(eq(clients.id, clientId), isNull(clients.deletedAt))).for("update");
+      if (!before) return undefined;
+      
+      const result = await tx.update(clients)
+        .set({ logoAttachmentId: attachmentId, logoUrl: `/api/attachments/${attachmentId}/download` })
+        .where(eq(clients.id, clientId))
+        .returning();
+      await this.audit(tx, actorId, "client", clientId, "update", before, result[0]);
+      return result[0];
+    });
+  }
+  
+  async getImportJobs(status?: string): Promise<ImportJob[]> {
+    return await db.select().from(importJobs)
+      .where(status ? eq(importJobs.status, status) : undefined)
+      .orderBy(desc(importJobs.createdAt));
+  }
+  
+  async getImportJob(id: number): Promise<ImportJob | undefined> {
+    const result = await db.select().from(importJobs).where(eq(importJobs.id, id));
     return result[0];
   }
   
-  async deleteInvoice(id: number): Promise<boolean> {
-    const result = await db.delete(invoices).where(eq(invoices.id, id)).returning();
-    return result.length > 0;
+  async createImportJob(job: typeof importJobs.$inferInsert): Promise<ImportJob> {
+    const result = await db.insert(importJobs).values(job).returning();
+    return result[0];
+  }
+  
+  async updateImportJob(id: number, changes: Partial<typeof importJobs.$inferInsert>): Promise<ImportJob | undefined> {
+    const result = await db.update(importJobs)
+      .set({ ...changes, updatedAt: sql`now()` })
+      .where(eq(importJobs.id, id))
+      .returning();
+    return result[0];
+  }
+  
+  // Cria a nota a partir da importação e anexa a ela o arquivo original
+  async commitImportJob(id: number, invoice: InsertInvoice, actorId: number | null = null): Promise<Invoice | undefined> {
+    return await db.transaction(async (tx) => {
+      const [job] = await tx.select().from(importJobs).where(eq(importJobs.id, id)).for("update");
+      if (!job) return undefined;
+      
+      if (job.status !== "extracted" && job.status !== "reviewed") {
+        throw new ConflictError(`Import job is ${job.status} and cannot be committed`);
+      }
+      
+      const created = await this.insertInvoice(tx, invoice, actorId);
+      
+      if (job.attachmentId) {
+        const [source] = await tx.select().from(attachments).where(eq(attachments.id, job.attachmentId));
+        if (source) {
+          const { id: _id, createdAt: _createdAt, ...copy } = source;
+          await tx.insert(attachments).values({ ...copy, ownerType: "invoice", ownerId: created.id, kind: "document", uploadedBy: actorId });
+        }
+      }
+      
+      await tx.update(importJobs)
+        .set({ status: "committed", invoiceId: created.id, reviewedBy: job.reviewedBy ?? actorId, updatedAt: sql`now()` })
+        .where(eq(importJobs.id, id));
+      return created;
+    });
+  }
+  
+  // Nota a partir do XML fiscal: rejeita chave de acesso ou número já importados e
+  // associa o destinatário a um cliente existente (CNPJ/CPF, depois nome) ou cria um novo.
+  // O XML original é anexado na mesma transação: sem anexo, a nota também não fica
+  async importFiscalDocument(
+    fiscal: FiscalDocument,
+    status: string,
+    actorId: number | null = null,
+    document?: { fileName: string; data: Buffer },
+  ): Promise<{ invoice: Invoice; client: Client; clientCreated: boolean }> {
+    const content = document ? await this.storeAttachmentContent("document", document.data) : undefined;
+    
+    return await db.transaction(async (tx) => {
+      if (fiscal.accessKey) {
+        const [existing] = await tx.select({ number: invoices.number }).from(invoices).where(eq(invoices.accessKey, fiscal.accessKey));
+        if (existing) {
+          throw new ConflictError(`NF-e ${fiscal.accessKey} was already imported as invoice ${existing.number}`);
+        }
+      }
+      const [sameNumber] = await tx.select({ id: invoices.id }).from(invoices)
+        .where(and(eq(invoices.number, fiscal.number), isNull(invoices.deletedAt)));
+      if (sameNumber) {
+        throw new ConflictError(`Invoice number ${fiscal.number} already exists`);
+      }
+      
+      const { client, created } = await this.resolveFiscalClient(tx, fiscal, actorId);
+      const invoice = await this.insertInvoice(tx, buildInvoiceFromFiscalDocument(fiscal, { clientId: client.id, status }), actorId);
+      if (document && content) {
+        await this.insertAttachment(tx, { ownerType: "invoice", ownerId: invoice.id, kind: "document", ...document }, content, actorId);
+      }
+      return { invoice, client, clientCreated: created };
+    });
+  }
+  
+  async getInvoiceNumbers(): Promise<string[]> {
+    const result = await db.select({ number: invoices.number }).from(invoices).where(isNull(invoices.deletedAt));
+    return result.map(row => row.number);
+  }
+  
+  // Importação em lote: tudo ou nada, numa única transação
+  async importClients(rows: InsertClient[], actorId: number | null = null): Promise<Client[]> {
+    return await db.transaction(async (tx) => {
+      const created: Client[] = [];
+      for (const client of rows) {
+        if (client.document) await this.assertDocumentAvailable(tx, client.document);
+        
+        const [inserted] = await tx.insert(clients).values(client).returning();
+        await this.audit(tx, actorId, "client", inserted.id, "create", null, inserted);
+        created.push(inserted);
+      }
+      return created;
+    });
+  }
+  
+  async importInvoices(rows: InvoiceImportRow[], actorId: number | null = null): Promise<Invoice[]> {
+    return await db.transaction(async (tx) => {
+      const numbers = rows.map(row => row.invoice.number);
+      const [duplicate] = numbers.length > 0
+        ? await tx.select({ number: invoices.number }).from(invoices)
+          .where(and(inArray(invoices.number, numbers), isNull(invoices.deletedAt)))
+          .limit(1)
+        : [];
+      if (duplicate) {
+        throw new ConflictError(`Invoice number ${duplicate.number} already exists`);
+      }
+      
+      const created: Invoice[] = [];
+      for (const { invoice, payment } of rows) {
+        let inserted = await this.insertInvoice(tx, invoice, actorId);
+        if (payment) {
+          await this.insertPayment(tx, { ...payment, invoiceId: inserted.id, recordedBy: actorId });
+          [inserted] = await tx.select().from(invoices).where(eq(invoices.id, inserted.id));
+        }
+        created.push(inserted);
+      }
+      return created;
+    });
+  }
+  
+  private async resolveFiscalClient(tx: Transaction, fiscal: FiscalDocument, actorId: number | null): Promise<{ client: Client; created: boolean }> {
+    const { document, name } = fiscal.recipient;
+    
+    if (document) {
+      const [byDocument] = await tx.select().from(clients)
+        .where(and(eq(clients.document, document), isNull(clients.deletedAt)))
+        .orderBy(asc(clients.id))
+        .limit(1);
+      if (byDocument) return { client: byDocument, created: false };
+    }
+    
+    // Sem documento cadastrado, o nome decide; o CNPJ/CPF do XML passa a identificar o cliente
+    if (name) {
+      const candidates = await tx.select().from(clients).where(and(isNull(clients.deletedAt), isNull(clients.document)));
+      const [best] = findClientMatches(name, candidates, 1);
+      if (best && best.score >= CLIENT_MATCH_THRESHOLD) {
+        if (!document) return { client: best.client, created: false };
+        
+        const [updated] = await tx.update(clients).set({ document }).where(eq(clients.id, best.client.id)).returning();
+        await this.audit(tx, actorId, "client", updated.id, "update", best.client, updated);
+        return { client: updated, created: false };
+      }
+    }
+    
+    const [created] = await tx.insert(clients)
+      .values({ name: name ?? document!, document })
+      .returning();
+    await this.audit(tx, actorId, "client", created.id, "create", null, created);
+    return { client: created, created: true };
+  }
+  
+  async getPaymentsByInvoice(invoiceId: number): Promise<Payment[]> {
+    return await db.select().from(payments).where(eq(payments.invoiceId, invoiceId)).orderBy(asc(payments.paidAt));
+  }
+  
+  // Recebimentos de notas ativas em ordem de pagamento, em lotes como streamInvoices
+  async *streamPayments(query: PaymentListQuery, batchSize = STREAM_BATCH_SIZE): AsyncGenerator<PaymentWithInvoice[]> {
+    const order = listOrder("paidAt", { paidAt: payments.paidAt }, payments.id);
+    const where = and(
+      isNull(invoices.deletedAt),
+      query.method ? inArray(payments.method, query.method) : undefined,
+      query.clientId ? eq(invoices.clientId, query.clientId) : undefined,
+      query.paidFrom ? gte(payments.paidAt, query.paidFrom) : undefined,
+      query.paidTo ? lt(payments.paidAt, sql`${query.paidTo}::date + 1`) : undefined,
+      query.minAmount !== undefined ? gte(payments.amount, query.minAmount.toFixed(2)) : undefined,
+      query.maxAmount !== undefined ? lte(payments.amount, query.maxAmount.toFixed(2)) : undefined,
+      query.q ? or(ilike(invoices.number, likePattern(query.q)), ilike(payments.reference, likePattern(query.q))) : undefined,
+    );
+    let cursor: ListCursor | undefined;
+    
+    while (true) {
+      const rows = await db.select({ payment: payments, invoice: invoices, client: clients })
+        .from(payments)
+        .innerJoin(invoices, eq(payments.invoiceId, invoices.id))
+        .leftJoin(clients, eq(invoices.clientId, clients.id))
+        .where(and(where, cursor ? afterCursor(order, cursor) : undefined))
+        .orderBy(...orderByList(order))
+        .limit(batchSize);
+      if (rows.length === 0) return;
+      
+      yield rows.map(row => ({ ...row.payment, invoice: row.invoice, client: row.client }));
+      if (rows.length < batchSize) return;
+      const last = rows[rows.length - 1].payment;
+      cursor = { value: last.paidAt, id: last.id };
+    }
+  }
+  
+  async createPayment(payment: InsertPayment): Promise<Payment | undefined> {
+    return await db.transaction(async (tx) => this.insertPayment(tx, payment));
+  }
+  
+  async deletePayment(invoiceId: number, paymentId: number, actorId: number | null = null): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for("update");
+      if (!invoice) return false;
+      
+      const result = await tx.delete(payments)
+        .where(and(eq(payments.id, paymentId), eq(payments.invoiceId, invoiceId)))
+        .returning();
+      if (result.length === 0) return false;
+      
+      const updated = await this.recalculateInvoice(tx, invoiceId);
+      await this.audit(tx, actorId, "payment", paymentId, "delete", result[0], null, invoiceId);
+      await this.audit(tx, actorId, "invoice", invoiceId, "update", invoice, updated ?? null);
+      return true;
+    });
+  }
+  
+  async createPixCharge(charge: InsertPixCharge): Promise<PixCharge> {
+    const result = await db.insert(pixCharges).values(charge).returning();
+    return result[0];
+  }
+  
+  async getPixChargeByTxid(txid: string): Promise<PixCharge | undefined> {
+    const result = await db.select().from(pixCharges).where(eq(pixCharges.txid, txid));
+    return result[0];
+  }
+  
+  // Cobrança ainda aberta para o mesmo valor, reaproveitada em vez de gerar outro txid
+  async getActivePixCharge(invoiceId: number, amount: string): Promise<PixCharge | undefined> {
+    const result = await db.select().from(pixCharges)
+      .where(and(
+        eq(pixCharges.invoiceId, invoiceId),
+        eq(pixCharges.status, "active"),
+        eq(pixCharges.amount, parseFloat(amount).toFixed(2)),
+      ))
+      .orderBy(desc(pixCharges.createdAt))
+      .limit(1);
+    return result[0];
+  }
+  
+  async confirmPixCharge(txid: string, confirmation: PixConfirmation): Promise<Payment | undefined> {
+    return await db.transaction(async (tx) => this.confirmCharge(tx, txid, confirmation));
+  }
+  
+  async processPixEvent(event: PixWebhookEvent): Promise<{ event: PixEvent; duplicate: boolean }> {
+    return await db.transaction(async (tx) => {
+      const inserted = await tx.insert(pixEvents).values({
+        endToEndId: event.endToEndId,
+        txid: event.txid ?? null,
+        amount: event.valor,
+        paidAt: event.horario,
+        status: "unmatched",
+        payload: event,
+      }).onConflictDoNothing({ target: pixEvents.endToEndId }).returning();
+      
+      // Reentrega do PSP: o evento já foi processado
+      if (!inserted[0]) {
+        const [existing] = await tx.select().from(pixEvents).where(eq(pixEvents.endToEndId, event.endToEndId));
+        return { event: existing, duplicate: true };
+      }
+      
+      let status = "unmatched";
+      let error: string | null = null;
+      let paymentId: number | null = null;
+      
+      if (event.txid) {
+        try {
+          // Savepoint: uma cobrança rejeitada não desfaz o registro do evento
+          const payment = await tx.transaction(async (savepoint) => this.confirmCharge(savepoint, event.txid!, {
+            amount: event.valor,
+            paidAt: event.horario,
+            reference: event.endToEndId,
+          }));
+          if (payment) {
+            status = payment.overpayment ? "overpaid" : "applied";
+            paymentId = payment.id;
+          }
+        } catch (e) {
+          if (!(e instanceof ConflictError)) throw e;
+          status = "rejected";
+          error = e.message;
+        }
+      }
+      
+      const [updated] = await tx.update(pixEvents)
+        .set({ status, error, paymentId })
+        .where(eq(pixEvents.id, inserted[0].id))
+        .returning();
+      return { event: updated, duplicate: false };
+    });
+  }
+  
+  private async confirmCharge(tx: Transaction, txid: string, confirmation: PixConfirmation): Promise<Payment | undefined> {
+    const [charge] = await tx.select().from(pixCharges).where(eq(pixCharges.txid, txid)).for("update");
+    if (!charge) return undefined;
+    
+    if (charge.status === "completed") {
+      throw new ConflictError(`PIX charge ${txid} was already confirmed`);
+    }
+    
+    // O dinheiro já entrou: se o saldo caiu depois da cobrança, o excedente vira crédito
+    const payment = await this.insertPayment(tx, {
+      invoiceId: charge.invoiceId,
+      amount: confirmation.amount ?? charge.amount,
+      paidAt: confirmation.paidAt,
+      method: "pix",
+      reference: confirmation.reference ?? txid,
+      recordedBy: confirmation.recordedBy ?? null,
+    }, true);
+    if (!payment) return undefined;
+    
+    await tx.update(pixCharges)
+      .set({ status: "completed", paymentId: payment.id, completedAt: confirmation.paidAt })
+      .where(eq(pixCharges.id, charge.id));
+    return payment;
+  }
+  
+  private async insertPayment(tx: Transaction, payment: InsertPayment, allowOverpayment = false): Promise<Payment | undefined> {
+    const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, payment.invoiceId)).for("update");
+    if (!invoice) return undefined;
+    
+    if (invoice.deletedAt) {
+      throw new ConflictError("Cannot record a payment on a deleted invoice");
+    }
+    if (invoice.status === "cancelled" || invoice.status === "draft") {
+      throw new ConflictError(`Cannot record a payment on a ${invoice.status} invoice`);
+    }
+    const excessCents = toCents(payment.amount) - toCents(invoice.balanceDue);
+    if (excessCents > 0 && !allowOverpayment) {
+      throw new ConflictError(`Payment exceeds balance due of ${invoice.balanceDue}`);
+    }
+    
+    const result = await tx.insert(payments)
+      .values({ ...payment, overpayment: excessCents > 0 ? fromCents(excessCents) : null })
+      .returning();
+    const updated = await this.recalculateInvoice(tx, payment.invoiceId);
+    
+    const actorId = payment.recordedBy ?? null;
+    await this.audit(tx, actorId, "payment", result[0].id, "create", null, result[0], payment.invoiceId);
+    await this.audit(tx, actorId, "invoice", payment.invoiceId, "update", invoice, updated ?? null);
+    return result[0];
+  }
+  
+  async getAuditLog(filters: AuditFilters): Promise<AuditLogEntry[]> {
+    const conditions = [];
+    if (filters.entity) conditions.push(eq(auditLog.entity, filters.entity));
+    if (filters.entityId) conditions.push(eq(auditLog.entityId, filters.entityId));
+    if (filters.actorId) conditions.push(eq(auditLog.actorId, filters.actorId));
+    if (filters.from) conditions.push(gte(auditLog.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLog.createdAt, filters.to));
+    
+    return await db.select().from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(filters.limit ?? 200);
+  }
+  
+  // Histórico da nota inclui as alterações nos pagamentos vinculados a ela
+  async getInvoiceHistory(invoiceId: number): Promise<AuditLogEntry[]> {
+    return await db.select().from(auditLog)
+      .where(or(
+        and(eq(auditLog.entity, "invoice"), eq(auditLog.entityId, invoiceId)),
+        eq(auditLog.invoiceId, invoiceId),
+      ))
+      .orderBy(asc(auditLog.createdAt), asc(auditLog.id));
+  }
+  
+  private async audit(
+    tx: Transaction,
+    actorId: number | null,
+    entity: AuditEntity,
+    entityId: number,
+    action: AuditAction,
+    before: object | null,
+    after: object | null,
+    invoiceId: number | null = entity === "invoice" ? entityId : null,
+  ): Promise<void> {
+    const changes = diffRecords(before, after);
+    if (action === "update" && Object.keys(changes).length === 0) return;
+    
+    await tx.insert(auditLog).values({ actorId, entity, entityId, action, changes, invoiceId });
+  }
+  
+  // Saldo e status da nota são sempre derivados do ledger de pagamentos
+  private async recalculateInvoice(tx: Transaction, invoiceId: number): Promise<Invoice | undefined> {
+    const [invoice] = await tx.select().from(invoices).where(eq(invoices.id, invoiceId)).for("update");
+    if (!invoice) return undefined;
+    
+    const [{ total }] = await tx
+      .select({ total: sql<string>`coalesce(sum(${payments.amount}), 0)` })
+      .from(payments)
+      .where(eq(payments.invoiceId, invoiceId));
+    
+    const paidCents = toCents(total);
+    const balanceCents = Math.max(0, toCents(invoice.amount) - paidCents);
+    
+    const balanceDue = fromCents(balanceCents);
+    
+    // Rascunhos e notas canceladas mantêm o status definido manualmente
+    let status = invoice.status;
+    if (status !== "cancelled" && status !== "draft") {
+      if (balanceCents === 0) {
+        status = "paid";
+      } else if (getDaysOverdue({ ...invoice, balanceDue }) > 0) {
+        status = "overdue";
+      } else if (paidCents > 0) {
+        status = "partial";
+      } else {
+        status = "pending";
+      }
+    }
+    
+    const result = await tx.update(invoices)
+      .set({ balanceDue, status })
+      .where(eq(invoices.id, invoiceId))
+      .returning();
+    return result[0];
   }
   
-
   
   async getDashboardStats(monthFilter?: string, yearFilter?: number) {
     try {
-      console.log('Starting getDashboardStats with filters:', { monthFilter, yearFilter });
-      
       // Buscar todas as invoices primeiro
-      const allInvoices = await db.select().from(invoices);
-      const allClients = await db.select().from(clients);
-      
-      console.log('Found invoices:', allInvoices.length);
-      console.log('Found clients:', allClients.length);
+      const allInvoices = await db.select().from(invoices).where(isNull(invoices.deletedAt));
+      const paymentTotals = await db
+        .select({ invoiceId: payments.invoiceId, total: sql<string>`sum(${payments.amount})` })
+        .from(payments)
+        .groupBy(payments.invoiceId);
+      const paidByInvoice = new Map(paymentTotals.map(row => [row.invoiceId, parseFloat(row.total)]));
       
       // Aplicar filtros se fornecidos
       let filteredInvoices = allInvoices;
@@ -237,16 +1976,12 @@ export class DatabaseStorage implements IStorage {
         });
       }
       
-      console.log('Filtered invoices:', filteredInvoices.length);
-      
       // Calcular totais baseados nas notas filtradas
       const totalRevenue = filteredInvoices.reduce((sum, inv) => sum + parseFloat(inv.amount.toString()), 0);
       
-      // Calcular valor recebido (amount - balance_due)
+      // Calcular valor recebido a partir dos pagamentos registrados
       const paidAmount = filteredInvoices.reduce((sum, inv) => {
-        const balanceDue = parseFloat(inv.balanceDue?.toString() || '0');
-        const paidValue = parseFloat(inv.amount.toString()) - balanceDue;
-        return sum + Math.max(0, paidValue); // Garantir que não seja negativo
+        return sum + (paidByInvoice.get(inv.id) || 0);
       }, 0);
       
       // Calcular valor a receber (balance_due)
@@ -257,7 +1992,8 @@ export class DatabaseStorage implements IStorage {
       // Status distribution das notas filtradas
       const statusCount: Record<string, number> = {};
       filteredInvoices.forEach(inv => {
-        statusCount[inv.status] = (statusCount[inv.status] || 0) + 1;
+        const status = inv.status ?? "pending";
+        statusCount[status] = (statusCount[status] || 0) + 1;
       });
       
       // Monthly revenue dos últimos 6 meses de 2025
@@ -304,15 +2040,6 @@ export class DatabaseStorage implements IStorage {
         }))
       };
       
-      console.log('Final dashboard stats result:', {
-        ...result,
-        calculationBreakdown: {
-          totalRevenue: `R$ ${totalRevenue.toFixed(2)}`,
-          paidAmount: `R$ ${paidAmount.toFixed(2)}`,
-          pendingAmount: `R$ ${pendingAmount.toFixed(2)}`,
-          filteredInvoicesCount: filteredInvoices.length
-        }
-      });
       return result;
     } catch (error) {
       console.error('Error in getDashboardStats:', error);
@@ -0,0 +1,45 @@
+// CNPJ (14 dígitos) e CPF (11 dígitos) com validação dos dígitos verificadores
+
+export function onlyDigits(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+function checkDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce((total, weight, index) => total + parseInt(digits[index]) * weight, 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+export function isValidCnpj(value: string): boolean {
+  const digits = onlyDigits(value);
+  if (digits.length !== 14 || /^(\d)\1+$/.test(digits)) return false;
+
+  const first = checkDigit(digits, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === parseInt(digits[12]) && second === parseInt(digits[13]);
+}
+
+export function isValidCpf(value: string): boolean {
+  const digits = onlyDigits(value);
+  if (digits.length !== 11 || /^(\d)\1+$/.test(digits)) return false;
+
+  const first = checkDigit(digits, [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = checkDigit(digits, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === parseInt(digits[9]) && second === parseInt(digits[10]);
+}
+
+// Dígitos do documento quando é um CNPJ ou CPF válido; caso contrário null
+export function normalizeDocument(value: string): string | null {
+  const digits = onlyDigits(value);
+  return isValidCnpj(digits) || isValidCpf(digits) ? digits : null;
+}
+
+export function formatDocument(digits: string): string {
+  if (digits.length === 14) {
+    return digits.replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, "$1.$2.$3/$4-$5");
+  }
+  if (digits.length === 11) {
+    return digits.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, "$1.$2.$3-$4");
+  }
+  return digits;
+}
@@ -0,0 +1,29 @@
+// Prazos de pagamento, compartilhados pela validação do formulário e pelo cálculo de vencimentos
+
+// Aceita prazos como "28", "28 dias" ou parcelados como "30/60/90"
+export function parsePaymentTerms(terms: string): number[] {
+  const normalized = terms.trim().toLowerCase().replace(/\s*(dias|days|dd)$/, "");
+  const parts = normalized.split("/").map(part => part.trim());
+
+  if (parts.length === 0 || parts.some(part => !/^\d{1,3}$/.test(part))) {
+    throw new Error(`Invalid payment terms: "${terms}"`);
+  }
+
+  const days = parts.map(part => parseInt(part));
+  for (let i = 1; i < days.length; i++) {
+    if (days[i] <= days[i - 1]) {
+      throw new Error(`Payment terms must be increasing: "${terms}"`);
+    }
+  }
+
+  return days;
+}
+
+export function isValidPaymentTerms(terms: string): boolean {
+  try {
+    parsePaymentTerms(terms);
+    return true;
+  } catch {
+    return false;
+  }
+}
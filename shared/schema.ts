@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb, real, index, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidCnpj, isValidCpf, onlyDigits } from "./documents";
+import { isValidPaymentTerms } from "./payment-terms";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -8,15 +10,114 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   email: text("email"),
   name: text("name"),
-  role: text("role").default("admin"),
+  role: text("role").default("readonly"), // admin, finance, sales, readonly
+  active: boolean("active").notNull().default(true),
+  totpSecret: text("totp_secret"),
+  totpEnabled: boolean("totp_enabled").notNull().default(false),
+  totpLastStep: integer("totp_last_step"),
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().default([]), // sha256 hashes
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Trilha de auditoria das mutações financeiras; changes guarda { campo: { from, to } }
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id),
+  entity: text("entity").notNull(), // client, invoice, payment, product, production_order, quote, user
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // create, update, delete, restore, merge
+  changes: jsonb("changes").notNull(),
+  invoiceId: integer("invoice_id"),
+  createdAt: timestamp("created_at", { mode: "string" }).notNull().defaultNow(),
+});
+
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const invitations = pgTable("invitations", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  email: text("email"),
+  role: text("role").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  expiresAt: timestamp("expires_at", { mode: "string" }).notNull(),
+  usedAt: timestamp("used_at", { mode: "string" }),
+  usedBy: integer("used_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Contadores de falhas de login por usuário e por IP, persistidos para sobreviver a reinícios
+export const loginAttempts = pgTable("login_attempts", {
+  key: text("key").primaryKey(), // "user:<username>" or "ip:<address>"
+  failures: integer("failures").notNull().default(0),
+  lockedUntil: timestamp("locked_until", { mode: "string" }),
+  lastFailureAt: timestamp("last_failure_at", { mode: "string" }),
+});
+
 export const clients = pgTable("clients", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   subName: text("sub_name"),
   logoUrl: text("logo_url"),
+  logoAttachmentId: integer("logo_attachment_id").references((): AnyPgColumn => attachments.id, { onDelete: "set null" }),
+  paymentTerms: text("payment_terms"), // e.g. "28" or "30/60/90" (days after issue)
+  document: text("document"), // CNPJ ou CPF, só dígitos
+  stateRegistration: text("state_registration"), // inscrição estadual; "ISENTO" para não contribuintes
+  billingAddress: jsonb("billing_address").$type<Address>(),
+  deliveryAddress: jsonb("delivery_address").$type<Address>(),
+  contacts: jsonb("contacts").$type<ClientContact[]>().default([]),
+  deletedAt: timestamp("deleted_at", { mode: "string" }),
+  deletedBy: integer("deleted_by").references(() => users.id),
+}, (table) => [
+  index("clients_document_idx").on(table.document),
+]);
+
+// Catálogo de produtos e serviços; priceTiers define preços por faixa de quantidade
+export const products = pgTable("products", {
+  id: serial("id").primaryKey(),
+  sku: text("sku").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  unit: text("unit").notNull().default("un"),
+  defaultPrice: decimal("default_price", { precision: 10, scale: 2 }).notNull(),
+  priceTiers: jsonb("price_tiers").$type<PriceTier[]>().default([]),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Orçamentos; revision aumenta a cada revisão de um orçamento já enviado
+export const quotes = pgTable("quotes", {
+  id: serial("id").primaryKey(),
+  number: text("number").notNull(),
+  clientId: integer("client_id").references(() => clients.id),
+  revision: integer("revision").notNull().default(1),
+  status: text("status").notNull().default("draft"), // draft, sent, accepted, rejected, expired
+  issueDate: timestamp("issue_date", { mode: "string" }).notNull(),
+  validUntil: timestamp("valid_until", { mode: "string" }).notNull(),
+  paymentTerms: text("payment_terms"),
+  items: jsonb("items").$type<InvoiceItem[]>().default([]),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }),
+  discountTotal: decimal("discount_total", { precision: 10, scale: 2 }),
+  taxTotal: decimal("tax_total", { precision: 10, scale: 2 }),
+  notes: text("notes"),
+  decidedAt: timestamp("decided_at", { mode: "string" }), // aceite ou recusa pelo cliente
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Conteúdo de cada revisão anterior, guardado quando o orçamento é revisado
+export const quoteRevisions = pgTable("quote_revisions", {
+  id: serial("id").primaryKey(),
+  quoteId: integer("quote_id").references(() => quotes.id, { onDelete: "cascade" }).notNull(),
+  revision: integer("revision").notNull(),
+  snapshot: jsonb("snapshot").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 export const invoices = pgTable("invoices", {
@@ -24,44 +125,647 @@ export const invoices = pgTable("invoices", {
   number: text("number").notNull(),
   clientId: integer("client_id").references(() => clients.id),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }),
+  discountTotal: decimal("discount_total", { precision: 10, scale: 2 }),
+  taxTotal: decimal("tax_total", { precision: 10, scale: 2 }),
   balanceDue: decimal("balance_due", { precision: 10, scale: 2 }).notNull().default("0.00"),
   issueDate: timestamp("issue_date", { mode: "string" }).notNull(),
-  status: text("status").default("pending"), // pending, paid, overdue, cancelled
-  items: jsonb("items").default('[]'),
+  dueDate: timestamp("due_date", { mode: "string" }),
+  paymentTerms: text("payment_terms"),
+  status: text("status").default("pending"), // draft, pending, partial, paid, overdue, cancelled
+  items: jsonb("items").$type<InvoiceItem[]>().default([]),
   notes: text("notes"),
+  quoteId: integer("quote_id").references(() => quotes.id),
+  accessKey: text("access_key").unique(), // chave de acesso da NF-e (44 dígitos), quando importada do XML
+  fiscalDocument: jsonb("fiscal_document").$type<FiscalDocument>(), // dados do XML fiscal de origem
+  deletedAt: timestamp("deleted_at", { mode: "string" }),
+  deletedBy: integer("deleted_by").references(() => users.id),
+});
+
+// Ordem de produção da estamparia, criada a partir de uma nota ou de um orçamento
+export const productionOrders = pgTable("production_orders", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").references(() => invoices.id),
+  quoteId: integer("quote_id").references(() => quotes.id),
+  clientId: integer("client_id").references(() => clients.id),
+  garment: text("garment").notNull(),
+  quantity: integer("quantity").notNull(),
+  colors: integer("colors").notNull(),
+  stage: text("stage").notNull().default("art_approval"), // see productionStages
+  assignedTo: integer("assigned_to").references(() => users.id),
+  dueDate: timestamp("due_date", { mode: "string" }),
+  notes: text("notes"),
+  stageChangedAt: timestamp("stage_changed_at", { mode: "string" }).notNull().defaultNow(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Histórico de mudanças de etapa, com horário de cada uma
+export const productionStageEvents = pgTable("production_stage_events", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").references(() => productionOrders.id, { onDelete: "cascade" }).notNull(),
+  fromStage: text("from_stage"),
+  toStage: text("to_stage").notNull(),
+  note: text("note"),
+  changedBy: integer("changed_by").references(() => users.id),
+  changedAt: timestamp("changed_at", { mode: "string" }).notNull().defaultNow(),
+});
+
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "cascade" }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  paidAt: timestamp("paid_at", { mode: "string" }).notNull(),
+  method: text("method").notNull(), // pix, boleto, cash, transfer
+  reference: text("reference"),
+  overpayment: decimal("overpayment", { precision: 10, scale: 2 }), // amount received above the balance due, credited to the client
+  recordedBy: integer("recorded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const pixCharges = pgTable("pix_charges", {
+  id: serial("id").primaryKey(),
+  txid: text("txid").notNull().unique(),
+  invoiceId: integer("invoice_id").references(() => invoices.id, { onDelete: "cascade" }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  pixCode: text("pix_code").notNull(),
+  status: text("status").notNull().default("active"), // active, completed
+  paymentId: integer("payment_id").references(() => payments.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at", { mode: "string" }),
+});
+
+// Eventos recebidos do PSP; endToEndId garante idempotência
+export const pixEvents = pgTable("pix_events", {
+  id: serial("id").primaryKey(),
+  endToEndId: text("end_to_end_id").notNull().unique(),
+  txid: text("txid"),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  paidAt: timestamp("paid_at", { mode: "string" }).notNull(),
+  status: text("status").notNull(), // applied, overpaid, unmatched, rejected
+  error: text("error"),
+  paymentId: integer("payment_id").references(() => payments.id, { onDelete: "set null" }),
+  payload: jsonb("payload"),
+  receivedAt: timestamp("received_at").defaultNow(),
+});
+
+// Arquivos anexados (arte, logos, documentos, PDFs/XMLs importados). O conteúdo fica no
+// backend configurado, endereçado pelo sha256; ownerType/ownerId apontam para o dono
+export const attachments = pgTable("attachments", {
+  id: serial("id").primaryKey(),
+  ownerType: text("owner_type").notNull(), // see attachmentOwnerTypes
+  ownerId: integer("owner_id"), // null for imports not yet linked to an invoice
+  kind: text("kind").notNull(), // see attachmentKinds
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  sha256: text("sha256").notNull(),
+  storageBackend: text("storage_backend").notNull(),
+  storageKey: text("storage_key").notNull(),
+  uploadedBy: integer("uploaded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("attachments_owner_idx").on(table.ownerType, table.ownerId),
+  index("attachments_sha256_idx").on(table.sha256),
+]);
 
+// Importação de notas a partir de arquivos: extração, revisão e criação da nota
+export const importJobs = pgTable("import_jobs", {
+  id: serial("id").primaryKey(),
+  status: text("status").notNull().default("pending"), // pending, extracted, reviewed, committed, failed
+  source: text("source").notNull(), // pdf
+  extractor: text("extractor"),
+  fileName: text("file_name").notNull(),
+  attachmentId: integer("attachment_id").references(() => attachments.id, { onDelete: "set null" }),
+  rawExtraction: jsonb("raw_extraction"), // resposta original do extrator
+  fields: jsonb("fields").$type<ExtractedInvoice>(), // valores extraídos, editáveis na revisão
+  confidence: jsonb("confidence").$type<Record<string, number>>(), // 0 a 1 por campo
+  matchedClientId: integer("matched_client_id").references(() => clients.id),
+  matchScore: real("match_score"),
+  error: text("error"),
+  invoiceId: integer("invoice_id").references(() => invoices.id),
+  createdBy: integer("created_by").references(() => users.id),
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const userRoles = ["admin", "finance", "sales", "readonly"] as const;
+export type UserRole = typeof userRoles[number];
 
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).omit({
+export const insertUserSchema = createInsertSchema(users, {
+  recoveryCodes: z.array(z.string()).optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
-export const insertClientSchema = createInsertSchema(clients).omit({
+export const insertInvitationSchema = createInsertSchema(invitations, {
+  role: z.enum(userRoles),
+}).omit({
   id: true,
+  usedAt: true,
+  usedBy: true,
+  createdAt: true,
 });
 
-export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+export const passwordSchema = z.string()
+  .min(10, "Password must have at least 10 characters")
+  .max(128, "Password must have at most 128 characters")
+  .regex(/[A-Za-z]/, "Password must contain a letter")
+  .regex(/\d/, "Password must contain a digit");
+
+// Dados aceitos no cadastro; o papel vem sempre do convite
+export const registerUserSchema = z.object({
+  token: z.string().min(1),
+  username: z.string().min(3).max(50),
+  password: passwordSchema,
+  email: z.string().email().optional(),
+  name: z.string().optional(),
+});
+
+// CNPJ ou CPF com ou sem pontuação; guardado só com os dígitos
+export const documentSchema = z.string()
+  .transform(onlyDigits)
+  .refine((digits) => isValidCnpj(digits) || isValidCpf(digits), "Invalid CNPJ/CPF");
+
+// Telefones com DDD (10 ou 11 dígitos), opcionalmente com o código do país 55
+const phoneSchema = z.string()
+  .transform(onlyDigits)
+  .refine((digits) => /^(55)?\d{10,11}$/.test(digits), "Phone must include the area code");
+
+export const addressSchema = z.object({
+  street: z.string().min(1),
+  number: z.string().min(1),
+  complement: z.string().optional(),
+  district: z.string().optional(),
+  city: z.string().min(1),
+  state: z.string().regex(/^[A-Za-z]{2}$/, "State must be a two-letter UF").transform((uf) => uf.toUpperCase()),
+  postalCode: z.string()
+    .regex(/^\d{5}-?\d{3}$/, "CEP must look like 00000-000")
+    .transform((cep) => `${cep.substring(0, 5)}-${cep.slice(-3)}`),
+});
+
+export const clientContactSchema = z.object({
+  name: z.string().min(1),
+  role: z.string().optional(),
+  email: z.string().email().optional(),
+  phone: phoneSchema.optional(),
+  whatsapp: phoneSchema.optional(),
+  // Contato principal recebe as mensagens de cobrança
+  isPrimary: z.boolean().default(false),
+}).refine((contact) => contact.email || contact.phone || contact.whatsapp, {
+  message: "Contacts need an email, phone or WhatsApp number",
+});
+
+// O cliente da URL permanece; sourceId é absorvido e removido
+export const mergeClientsSchema = z.object({
+  sourceId: z.number().int().positive(),
+});
+
+export const insertClientSchema = createInsertSchema(clients, {
+  paymentTerms: (schema) => schema.refine(isValidPaymentTerms, "Payment terms must look like \"28\" or \"30/60/90\" (increasing)"),
+  document: documentSchema.nullable().optional(),
+  stateRegistration: (schema) => schema.regex(/^(\d[\d.\/-]*|ISENTO)$/i, "State registration must be digits or ISENTO"),
+  billingAddress: addressSchema.nullable().optional(),
+  deliveryAddress: addressSchema.nullable().optional(),
+  contacts: z.array(clientContactSchema)
+    .refine((contacts) => contacts.filter((contact) => contact.isPrimary).length <= 1, "Only one contact can be primary")
+    .optional(),
+}).omit({
   id: true,
+  logoAttachmentId: true,
+  deletedAt: true,
+  deletedBy: true,
+});
+
+// Faixa de quantidade (ex.: 1-49, 50-199, 200+); maxQuantity ausente significa "ou mais"
+export const priceTierSchema = z.object({
+  minQuantity: z.number().int().positive(),
+  maxQuantity: z.number().int().positive().nullable().optional(),
+  unitPrice: z.number().nonnegative(),
+}).refine((tier) => tier.maxQuantity == null || tier.maxQuantity >= tier.minQuantity, {
+  message: "maxQuantity must be greater than or equal to minQuantity",
+});
+
+export const priceTiersSchema = z.array(priceTierSchema).superRefine((tiers, ctx) => {
+  const sorted = [...tiers].sort((a, b) => a.minQuantity - b.minQuantity);
+  for (let i = 1; i < sorted.length; i++) {
+    const previousMax = sorted[i - 1].maxQuantity;
+    if (previousMax == null || previousMax >= sorted[i].minQuantity) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Price tier starting at ${sorted[i].minQuantity} overlaps the previous tier`,
+      });
+    }
+  }
+});
+
+export const insertProductSchema = createInsertSchema(products, {
+  sku: (schema) => schema.trim().min(1).max(40),
+  name: (schema) => schema.min(1),
+  defaultPrice: (schema) => schema.refine((value) => parseFloat(value) >= 0, "Default price must not be negative"),
+  priceTiers: priceTiersSchema.optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Linha da nota: desconto em valor (R$) na linha, imposto em percentual sobre o valor líquido.
+// Com productId e sem unitPrice, o preço vem do catálogo conforme a faixa de quantidade.
+// total é sempre recalculado pelo servidor.
+export const invoiceItemSchema = z.object({
+  productId: z.number().int().positive().optional(),
+  description: z.string().min(1).optional(),
+  quantity: z.number().positive(),
+  unit: z.string().min(1).optional(),
+  unitPrice: z.number().nonnegative().optional(),
+  discount: z.number().nonnegative().default(0),
+  taxRate: z.number().min(0).max(100).default(0),
+  total: z.number().optional(),
+  // Classificação fiscal, preenchida nas notas importadas do XML
+  ncm: z.string().optional(),
+  cfop: z.string().optional(),
+}).refine((item) => item.productId !== undefined || (item.description !== undefined && item.unitPrice !== undefined), {
+  message: "Items without productId need a description and unitPrice",
+});
+
+// balanceDue is derived from the payments ledger, quoteId is set only by quote conversion and
+// accessKey/fiscalDocument only by the fiscal XML import; amount may be omitted when items are given: the server computes it from them
+export const insertInvoiceSchema = createInsertSchema(invoices, {
+  amount: (schema) => schema.optional(),
+  paymentTerms: (schema) => schema.refine(isValidPaymentTerms, "Payment terms must look like \"28\" or \"30/60/90\" (increasing)"),
+  items: z.array(invoiceItemSchema).optional(),
+}).omit({
+  id: true,
+  subtotal: true,
+  discountTotal: true,
+  taxTotal: true,
+  balanceDue: true,
+  quoteId: true,
+  accessKey: true,
+  fiscalDocument: true,
+  deletedAt: true,
+  deletedBy: true,
+});
+
+export const quoteStatuses = ["draft", "sent", "accepted", "rejected", "expired"] as const;
+export type QuoteStatus = typeof quoteStatuses[number];
+
+// Status muda apenas por POST /api/quotes/:id/status; totais são calculados como nas notas
+export const insertQuoteSchema = createInsertSchema(quotes, {
+  amount: (schema) => schema.optional(),
+  paymentTerms: (schema) => schema.refine(isValidPaymentTerms, "Payment terms must look like \"28\" or \"30/60/90\" (increasing)"),
+  items: z.array(invoiceItemSchema).optional(),
+}).omit({
+  id: true,
+  revision: true,
+  status: true,
+  subtotal: true,
+  discountTotal: true,
+  taxTotal: true,
+  decidedAt: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+export const convertQuoteSchema = z.object({
+  number: z.string().min(1),
+  issueDate: z.string().optional(),
+});
+
+export const productionStages = [
+  "art_approval",
+  "screen_burning",
+  "printing",
+  "curing",
+  "finishing",
+  "ready_for_pickup",
+] as const;
+export type ProductionStage = typeof productionStages[number];
+
+// A etapa muda apenas por POST /api/production/orders/:id/stage
+export const insertProductionOrderSchema = createInsertSchema(productionOrders, {
+  garment: (schema) => schema.min(1),
+  quantity: (schema) => schema.int().positive(),
+  colors: (schema) => schema.int().min(1).max(12),
+}).omit({
+  id: true,
+  clientId: true,
+  stage: true,
+  stageChangedAt: true,
+  createdBy: true,
+  createdAt: true,
+});
+
+export const attachmentOwnerTypes = ["client", "invoice", "quote", "production_order", "import"] as const;
+export type AttachmentOwnerType = typeof attachmentOwnerTypes[number];
+
+export const attachmentKinds = ["artwork", "logo", "document", "import"] as const;
+export type AttachmentKind = typeof attachmentKinds[number];
+
+export const importJobStatuses = ["pending", "extracted", "reviewed", "committed", "failed"] as const;
+export type ImportJobStatus = typeof importJobStatuses[number];
+
+// Campos extraídos de um documento; null quando o extrator não encontrou o valor
+export const extractedInvoiceSchema = z.object({
+  clientName: z.string().nullable(),
+  // CNPJ/CPF do tomador/destinatário, só dígitos
+  clientDocument: z.string().regex(/^(\d{11}|\d{14})$/).nullable(),
+  number: z.string().nullable(),
+  amount: z.number().nullable(),
+  description: z.string().nullable(),
+  issueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable(),
+  items: z.array(z.object({
+    description: z.string(),
+    quantity: z.number(),
+    unitPrice: z.number(),
+    total: z.number().nullable(),
+  })),
+});
+
+// Revisão: corrige campos extraídos e escolhe o cliente
+export const reviewImportJobSchema = z.object({
+  fields: extractedInvoiceSchema.partial().optional(),
+  clientId: z.number().int().positive().nullable().optional(),
+});
+
+export const commitImportJobSchema = z.object({
+  number: z.string().min(1).optional(),
+  paymentTerms: z.string().optional(),
+});
+
+export const invoiceStatuses = ["draft", "pending", "partial", "paid", "overdue", "cancelled"] as const;
+
+// Colunas aceitas em ?sort= (prefixo "-" para ordem decrescente)
+export const invoiceSortFields = ["id", "number", "clientId", "clientName", "amount", "subtotal", "discountTotal", "taxTotal", "balanceDue", "issueDate", "dueDate", "paymentTerms", "status", "quoteId", "accessKey", "deletedAt"] as const;
+export const clientSortFields = ["id", "name", "subName", "document", "stateRegistration", "paymentTerms", "deletedAt"] as const;
+
+function sortSchema<T extends string>(fields: readonly T[], fallback: `${"" | "-"}${T}`) {
+  return z.string().default(fallback).refine((sort) => (fields as readonly string[]).includes(sort.replace(/^-/, "")), {
+    message: `Sort must be one of ${fields.join(", ")} (prefix with "-" for descending order)`,
+  });
+}
+
+// Parâmetros de listagem vindos da query string; cursor e offset são alternativos
+const listQuerySchema = z.object({
+  q: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).optional(),
+  cursor: z.string().min(1).optional(),
+});
+
+function refinePagination<T extends z.ZodTypeAny>(schema: T) {
+  return schema.refine((query) => query.offset === undefined || query.cursor === undefined, {
+    message: "Use either offset or cursor, not both",
+  });
+}
+
+// Aceita ?status=pending,overdue e também ?status=pending&status=overdue
+const statusListSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? value : [value]).flatMap((entry) => String(entry).split(",")).filter(Boolean),
+  z.array(z.enum(invoiceStatuses)).min(1),
+);
+
+export const invoiceListQuerySchema = refinePagination(listQuerySchema.extend({
+  sort: sortSchema(invoiceSortFields, "-issueDate"),
+  status: statusListSchema.optional(),
+  clientId: z.coerce.number().int().positive().optional(),
+  issuedFrom: z.string().date().optional(),
+  issuedTo: z.string().date().optional(),
+  minAmount: z.coerce.number().nonnegative().optional(),
+  maxAmount: z.coerce.number().nonnegative().optional(),
+}));
+
+export const clientListQuerySchema = refinePagination(listQuerySchema.extend({
+  sort: sortSchema(clientSortFields, "name"),
+}));
+
+export const paymentMethods = ["pix", "boleto", "cash", "transfer"] as const;
+
+// Recebimentos filtrados pela data de pagamento e pelos dados da nota
+export const paymentListQuerySchema = z.object({
+  q: z.string().trim().min(1).optional(),
+  clientId: z.coerce.number().int().positive().optional(),
+  method: z.preprocess(
+    (value) => (Array.isArray(value) ? value : [value]).flatMap((entry) => String(entry).split(",")).filter(Boolean),
+    z.array(z.enum(paymentMethods)).min(1),
+  ).optional(),
+  paidFrom: z.string().date().optional(),
+  paidTo: z.string().date().optional(),
+  minAmount: z.coerce.number().nonnegative().optional(),
+  maxAmount: z.coerce.number().nonnegative().optional(),
+});
+
+// "accounting" é o leiaute de lançamentos contábeis de largura fixa
+export const exportFormats = ["csv", "xlsx", "accounting"] as const;
+export const exportFormatSchema = z.object({
+  format: z.enum(exportFormats).default("csv"),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  amount: (schema) => schema.refine((value) => parseFloat(value) > 0, "Amount must be positive"),
+  method: z.enum(paymentMethods),
+}).omit({
+  id: true,
+  overpayment: true,
+  createdAt: true,
+});
+
+export const insertPixChargeSchema = createInsertSchema(pixCharges).omit({
+  id: true,
+  status: true,
+  paymentId: true,
+  createdAt: true,
+  completedAt: true,
 });
 
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "password" | "totpSecret" | "totpLastStep" | "recoveryCodes">;
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+
+export type Invitation = typeof invitations.$inferSelect;
+export type InsertInvitation = z.infer<typeof insertInvitationSchema>;
 
 export type Client = typeof clients.$inferSelect;
 export type InsertClient = z.infer<typeof insertClientSchema>;
+export type Address = z.infer<typeof addressSchema>;
+export type ClientContact = z.infer<typeof clientContactSchema>;
+
+export type Product = typeof products.$inferSelect;
+export type InsertProduct = z.infer<typeof insertProductSchema>;
+export type PriceTier = z.infer<typeof priceTierSchema>;
 
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type InvoiceItem = z.infer<typeof invoiceItemSchema>;
+
+export type Quote = typeof quotes.$inferSelect;
+export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+export type QuoteRevision = typeof quoteRevisions.$inferSelect;
+
+export type ProductionOrder = typeof productionOrders.$inferSelect;
+export type InsertProductionOrder = z.infer<typeof insertProductionOrderSchema>;
+export type ProductionStageEvent = typeof productionStageEvents.$inferSelect;
+
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertAttachment = typeof attachments.$inferInsert;
+
+export type ImportJob = typeof importJobs.$inferSelect;
+export type ExtractedInvoice = z.infer<typeof extractedInvoiceSchema>;
+export type ImportJobReview = z.infer<typeof reviewImportJobSchema>;
+
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+
+export type PixCharge = typeof pixCharges.$inferSelect;
+export type InsertPixCharge = z.infer<typeof insertPixChargeSchema>;
+
+export type PixEvent = typeof pixEvents.$inferSelect;
 
 // Complex types
 export type InvoiceWithClient = Invoice & {
   client: Client | null;
 };
 
+export type InvoiceListQuery = z.infer<typeof invoiceListQuerySchema>;
+export type ClientListQuery = z.infer<typeof clientListQuerySchema>;
+
+// Página de uma listagem; nextCursor é null na última página
+export type PageMeta = {
+  total: number;
+  limit: number;
+  offset: number | null;
+  sort: string;
+  nextCursor: string | null;
+};
+
+export type Page<T, M = {}> = {
+  data: T[];
+  meta: PageMeta & M;
+};
+
+// Somatórios de todas as notas que atendem aos filtros, não só da página
+export type InvoicePage = Page<InvoiceWithClient, {
+  totals: { amount: string; balanceDue: string };
+}>;
+
+export type PaymentListQuery = z.infer<typeof paymentListQuerySchema>;
+export type ExportFormat = typeof exportFormats[number];
+
+export type PaymentWithInvoice = Payment & {
+  invoice: Invoice;
+  client: Client | null;
+};
+
 export type ClientWithInvoices = Client & {
   invoices: Invoice[];
-};
\ No newline at end of file
+};
+
+export type OverdueInvoice = InvoiceWithClient & {
+  daysOverdue: number;
+};
+
+export type ClientAgingSummary = {
+  client: Client | null;
+  totalOverdue: number;
+  buckets: Record<"1-30" | "31-60" | "61-90" | "90+", number>;
+  invoices: OverdueInvoice[];
+};
+export type ClientDuplicate = {
+  clients: [Client, Client];
+  score: number;
+  reasons: ("document" | "name")[];
+};
+
+// Registros transferidos do cliente duplicado para o que permanece
+export type ClientMergeSummary = {
+  client: Client;
+  mergedClientId: number;
+  moved: {
+    invoices: number;
+    payments: number;
+    quotes: number;
+    productionOrders: number;
+    attachments: number;
+    importJobs: number;
+  };
+};
+
+export type QuoteWithClient = Quote & {
+  client: Client | null;
+  invoiceId: number | null;
+};
+
+export type QuoteConversionSummary = {
+  client: Client | null;
+  quotes: number;
+  accepted: number;
+  rejected: number;
+  expired: number;
+  converted: number;
+  conversionRate: number;
+  quotedAmount: number;
+  convertedAmount: number;
+};
+
+export type ProductionOrderWithDetails = ProductionOrder & {
+  client: Client | null;
+  invoiceNumber: string | null;
+  quoteNumber: string | null;
+  assignee: { id: number; name: string | null; username: string } | null;
+};
+
+export type ProductionBoardColumn = {
+  stage: ProductionStage;
+  orders: ProductionOrderWithDetails[];
+};
+
+export const fiscalDocumentKinds = ["nfe", "nfse"] as const;
+export type FiscalDocumentKind = typeof fiscalDocumentKinds[number];
+
+export type FiscalParty = {
+  document: string | null; // CNPJ ou CPF, só dígitos
+  name: string | null;
+};
+
+// Conteúdo relevante de uma NF-e (nfeProc) ou NFS-e (ABRASF) importada do XML
+export type FiscalDocument = {
+  kind: FiscalDocumentKind;
+  number: string;
+  series: string | null;
+  accessKey: string | null;
+  verificationCode: string | null;
+  issueDate: string;
+  dueDate: string | null;
+  emitter: FiscalParty;
+  recipient: FiscalParty;
+  items: {
+    code: string | null;
+    description: string;
+    ncm: string | null;
+    cfop: string | null;
+    unit: string | null;
+    quantity: number;
+    unitPrice: number;
+    grossAmount: number; // quantidade × unitário, como informado no XML
+    discount: number;
+    tax: number; // tributos somados ao preço (IPI, ICMS-ST)
+    total: number;
+  }[];
+  totals: {
+    items: number;
+    discount: number;
+    freight: number;
+    insurance: number;
+    other: number;
+    amount: number;
+  };
+  // Tributos por sigla (icms, icmsSt, ipi, pis, cofins, iss...), em reais
+  taxes: Record<string, number>;
+};